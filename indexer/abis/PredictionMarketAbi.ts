@@ -1,2 +1,2 @@
-export { PredictionMarketAbi } from "../../agents/src/common/abi/PredictionMarket";
-
+// Generated into the SDK from the contract's Foundry artifact; see sdk/scripts/generate-abi.mjs.
+export { predictionMarketAbi as PredictionMarketAbi } from "@infinite-markets/sdk";
@@ -0,0 +1,40 @@
+import { createPublicClient, createWalletClient, http, isAddress, isHex } from "viem";
+import type { Account, Address, Chain, Hex, PublicClient, Transport, WalletClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+export type ChainClients = {
+  publicClient: PublicClient;
+  /** Null when no signing key is configured; read-only bots and dry runs never send transactions. */
+  walletClient: WalletClient<Transport, Chain | undefined, Account> | null;
+  contract: Address;
+};
+
+export const createChainClients = ({
+  rpcUrl,
+  contract,
+  privateKey,
+}: {
+  rpcUrl: string;
+  contract: string;
+  privateKey?: string;
+}): ChainClients => {
+  if (!isAddress(contract)) {
+    throw new Error(`Invalid contract address: ${contract}`);
+  }
+  if (privateKey !== undefined && !isHex(privateKey)) {
+    throw new Error("Private key must be 0x-prefixed hex.");
+  }
+
+  const transport = http(rpcUrl);
+  const account = privateKey ? privateKeyToAccount(privateKey as Hex) : null;
+
+  return {
+    publicClient: createPublicClient({ transport }),
+    walletClient: account ? createWalletClient({ account, transport }) : null,
+    contract: contract.toLowerCase() as Address,
+  };
+};
+
+// Block time rather than wall-clock time decides expiry and trading windows, and local chains often drift from it.
+export const chainTime = async (publicClient: PublicClient): Promise<bigint> =>
+  (await publicClient.getBlock({ blockTag: "latest" })).timestamp;
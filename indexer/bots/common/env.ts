@@ -0,0 +1,20 @@
+// Parsers shared by the bots' config loaders; each throws with the variable name so misconfiguration fails at start.
+
+export type Env = Record<string, string | undefined>;
+
+export const bigintFrom = (env: Env, name: string, fallback: bigint): bigint => {
+  const value = env[name];
+  if (value === undefined) return fallback;
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a non-negative integer, got ${value}`);
+  }
+  return BigInt(value);
+};
+
+export const numberFrom = (env: Env, name: string, fallback: number): number => {
+  const value = env[name] === undefined ? fallback : Number(env[name]);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got ${env[name]}`);
+  }
+  return value;
+};
@@ -0,0 +1,119 @@
+// Thin client for the indexer HTTP API. Bots read state through the API rather than the database so they can run
+// anywhere the API is reachable.
+
+export type MarketResponse = {
+  marketId: string;
+  deployment: string | null;
+  status: string;
+  outcome: string;
+  openEpoch: string;
+  closeEpoch: string;
+  feeBps: string;
+};
+
+export type PortfolioPosition = {
+  marketId: string;
+  marketStatus: string;
+  outcome: string;
+  shares: string;
+  costBasis: string;
+};
+
+export type PortfolioResponse = {
+  trader: string;
+  positions: PortfolioPosition[];
+};
+
+export type StreamMessage = {
+  event: string;
+  id: string | null;
+  data: Record<string, unknown>;
+};
+
+export type IndexerClient = {
+  get<T>(path: string, query?: Record<string, string | undefined>): Promise<T>;
+  getMarket(marketId: string): Promise<MarketResponse | null>;
+  getPortfolio(trader: string): Promise<PortfolioResponse>;
+  stream(path: string, signal: AbortSignal): AsyncGenerator<StreamMessage>;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export const createIndexerClient = ({
+  apiUrl,
+  deployment,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: {
+  apiUrl: string;
+  /** Deployment selector passed to every request; may be omitted when the API serves a single deployment. */
+  deployment?: string;
+  timeoutMs?: number;
+}): IndexerClient => {
+  const urlFor = (path: string, query: Record<string, string | undefined> = {}) => {
+    const url = new URL(path, apiUrl);
+    for (const [key, value] of Object.entries({ deployment, ...query })) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    return url;
+  };
+
+  const request = (url: URL) => fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+
+  const readJson = async <T>(url: URL, response: Response): Promise<T> => {
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(`GET ${url.pathname} responded with ${response.status}: ${body?.error ?? response.statusText}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  const get = async <T>(path: string, query?: Record<string, string | undefined>): Promise<T> => {
+    const url = urlFor(path, query);
+    return readJson<T>(url, await request(url));
+  };
+
+  return {
+    get,
+
+    getMarket: async (marketId) => {
+      const url = urlFor(`/markets/${marketId}`);
+      const response = await request(url);
+      if (response.status === 404) return null;
+      return readJson<MarketResponse>(url, response);
+    },
+
+    getPortfolio: (trader) => get<PortfolioResponse>(`/traders/${trader}/portfolio`),
+
+    // Minimal Server-Sent Events reader: yields one message per blank-line-terminated block until aborted.
+    async *stream(path, signal) {
+      const response = await fetch(urlFor(path), { signal, headers: { accept: "text/event-stream" } });
+      if (!response.ok || !response.body) {
+        throw new Error(`GET ${path} responded with ${response.status}`);
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+          const block = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf("\n\n");
+
+          let event = "message";
+          let id: string | null = null;
+          const data: string[] = [];
+          for (const line of block.split("\n")) {
+            if (line.startsWith("event:")) event = line.slice(6).trim();
+            else if (line.startsWith("id:")) id = line.slice(3).trim();
+            else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+          }
+          if (data.length > 0) {
+            yield { event, id, data: JSON.parse(data.join("\n")) as Record<string, unknown> };
+          }
+        }
+      }
+    },
+  };
+};
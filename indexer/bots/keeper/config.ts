@@ -0,0 +1,88 @@
+import { isAddress, isHex } from "viem";
+import type { Address, Hex } from "viem";
+
+import { bigintFrom, numberFrom } from "../common/env";
+import type { Env } from "../common/env";
+
+export type KeeperConfig = {
+  apiUrl: string;
+  deployment?: string;
+  rpcUrl: string;
+  contract: string;
+  /** Contract owner key; finalizeMarket is onlyOwner, so finalization is skipped without it. */
+  ownerKey?: Hex;
+  /** Keys of the trading accounts whose payouts are claimed and whose expired orders are cancelled. */
+  accountKeys: Hex[];
+  /** Where claimed payouts are sent; each account receives its own payout when unset. */
+  payoutRecipient?: Address;
+  jobLogPath: string;
+  /** Transactions are never priced above this maxFeePerGas (wei). */
+  maxFeePerGas: bigint;
+  /** Jobs whose gas estimate exceeds this are failed rather than sent. */
+  maxGas: bigint;
+  maxAttempts: number;
+  /** Base delay before a failed job is retried; doubles with each attempt. */
+  retryDelayMs: number;
+  /** How long a sent transaction may stay unmined before it is re-priced under the same nonce. */
+  txTimeoutMs: number;
+  pollMs: number;
+  once: boolean;
+};
+
+const parseKey = (name: string, value: string): Hex => {
+  if (!isHex(value) || value.length !== 66) {
+    throw new Error(`${name} must be a 0x-prefixed 32-byte private key.`);
+  }
+  return value;
+};
+
+/** Reads KEEPER_* variables. KEEPER_ACCOUNT_KEYS is a comma-separated list of private keys. */
+export const loadKeeperConfig = (env: Env = process.env): KeeperConfig => {
+  const rpcUrl = env.KEEPER_RPC_URL ?? env.PONDER_RPC_URL;
+  if (!rpcUrl) {
+    throw new Error("Missing KEEPER_RPC_URL.");
+  }
+
+  const contract = env.KEEPER_CONTRACT ?? env.PREDICTION_MARKET_ADDRESS;
+  if (!contract || !isAddress(contract)) {
+    throw new Error(`KEEPER_CONTRACT must be the PredictionMarket address, got ${contract}`);
+  }
+
+  const ownerKey = env.KEEPER_OWNER_KEY ? parseKey("KEEPER_OWNER_KEY", env.KEEPER_OWNER_KEY) : undefined;
+  const accountKeys = (env.KEEPER_ACCOUNT_KEYS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => key.length > 0)
+    .map((key) => parseKey("KEEPER_ACCOUNT_KEYS", key));
+  if (!ownerKey && accountKeys.length === 0) {
+    throw new Error("Set KEEPER_OWNER_KEY, KEEPER_ACCOUNT_KEYS or both; the keeper has nothing to sign with.");
+  }
+
+  const payoutRecipient = env.KEEPER_PAYOUT_RECIPIENT;
+  if (payoutRecipient !== undefined && !isAddress(payoutRecipient)) {
+    throw new Error(`KEEPER_PAYOUT_RECIPIENT must be an address, got ${payoutRecipient}`);
+  }
+
+  const maxAttempts = numberFrom(env, "KEEPER_MAX_ATTEMPTS", 5);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error(`KEEPER_MAX_ATTEMPTS must be a positive integer, got ${env.KEEPER_MAX_ATTEMPTS}`);
+  }
+
+  return {
+    apiUrl: env.KEEPER_API_URL ?? "http://localhost:42069",
+    deployment: env.KEEPER_DEPLOYMENT,
+    rpcUrl,
+    contract,
+    ownerKey,
+    accountKeys,
+    payoutRecipient: payoutRecipient?.toLowerCase() as Address | undefined,
+    jobLogPath: env.KEEPER_JOB_LOG ?? ".keeper/jobs.jsonl",
+    maxFeePerGas: bigintFrom(env, "KEEPER_MAX_FEE_PER_GAS", 100_000_000_000n),
+    maxGas: bigintFrom(env, "KEEPER_MAX_GAS", 500_000n),
+    maxAttempts,
+    retryDelayMs: numberFrom(env, "KEEPER_RETRY_MS", 5_000),
+    txTimeoutMs: numberFrom(env, "KEEPER_TX_TIMEOUT_MS", 120_000),
+    pollMs: numberFrom(env, "KEEPER_POLL_MS", 15_000),
+    once: env.KEEPER_ONCE === "true",
+  };
+};
@@ -0,0 +1,86 @@
+import { closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+import type { Address, Hash, Hex } from "viem";
+
+export type JobKind = "finalize" | "claim" | "cancelExpired";
+
+/**
+ * - `submitted`: a signed transaction was written to the log before broadcast and may still be pending.
+ * - `confirmed`: the transaction was mined successfully; the job is never run again.
+ * - `failed`: the last attempt failed; it is retried after `retryAt` until the attempt limit is reached.
+ */
+export type JobStatus = "submitted" | "confirmed" | "failed";
+
+export type JobRecord = {
+  key: string;
+  kind: JobKind;
+  status: JobStatus;
+  signer: Address;
+  attempts: number;
+  /** Nonce of the pending transaction; replacements reuse it, so at most one of `hashes` can be mined. */
+  nonce?: number;
+  /** Every transaction signed for the current attempt, oldest first; the last one is `rawTransaction`. */
+  hashes?: Hash[];
+  rawTransaction?: Hex;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  submittedAt?: number;
+  retryAt?: number;
+  error?: string;
+  updatedAt: number;
+};
+
+export type JobLog = {
+  get(key: string): JobRecord | undefined;
+  /** Appends the record and flushes it to disk before returning, so it survives a crash right after. */
+  write(record: Omit<JobRecord, "updatedAt">): JobRecord;
+  pending(): JobRecord[];
+  close(): void;
+};
+
+// Append-only JSON lines; the last line for a key is its current state. Restarts replay the file, so a job that was
+// signed but not yet confirmed is picked up again instead of being submitted a second time.
+export const openJobLog = (path: string): JobLog => {
+  const jobs = new Map<string, JobRecord>();
+
+  const contents = existsSync(path) ? readFileSync(path, "utf8") : null;
+  if (contents === null) {
+    mkdirSync(dirname(path), { recursive: true });
+  } else {
+    const lines = contents.split("\n");
+    lines.forEach((line, index) => {
+      if (line.trim() === "") return;
+      try {
+        const record = JSON.parse(line) as JobRecord;
+        jobs.set(record.key, record);
+      } catch {
+        // A crash mid-append can only truncate the final line.
+        if (index < lines.length - 1) {
+          throw new Error(`Corrupt job log ${path} at line ${index + 1}`);
+        }
+      }
+    });
+  }
+
+  const fd = openSync(path, "a");
+  // Terminate a truncated final line so the next record starts on its own line.
+  if (contents && !contents.endsWith("\n")) {
+    writeSync(fd, "\n");
+  }
+
+  return {
+    get: (key) => jobs.get(key),
+
+    write: (entry) => {
+      const record = { ...entry, updatedAt: Date.now() };
+      writeSync(fd, `${JSON.stringify(record)}\n`);
+      fsyncSync(fd);
+      jobs.set(record.key, record);
+      return record;
+    },
+
+    pending: () => [...jobs.values()].filter((record) => record.status === "submitted"),
+
+    close: () => closeSync(fd),
+  };
+};
@@ -0,0 +1,364 @@
+import { BaseError, ContractFunctionRevertedError, encodeFunctionData, keccak256, parseTransaction } from "viem";
+import type { Address, ContractFunctionArgs, Hash, Hex, LocalAccount, PublicClient, TransactionReceipt } from "viem";
+import { predictionMarketAbi } from "@infinite-markets/sdk";
+
+import { chainTime } from "../common/chain";
+import type { IndexerClient } from "../common/indexer";
+import type { JobKind, JobLog, JobRecord } from "./jobs";
+import { priceTransaction, repriceTransaction } from "./transactions";
+import type { Fees, NonceTracker } from "./transactions";
+
+const OUTCOME_INDEX: Record<string, number> = { Yes: 1, No: 2 };
+const DISCOVERY_LIMIT = "100";
+// Headroom over the node's gas estimate, which is exact only for the state it was taken against.
+const GAS_BUFFER_PERCENT = 120n;
+
+type KeeperFunction = "finalizeMarket" | "claimPayout" | "cancelOrder";
+
+type KeeperCall = {
+  [Name in KeeperFunction]: {
+    functionName: Name;
+    args: ContractFunctionArgs<typeof predictionMarketAbi, "nonpayable", Name>;
+  };
+}[KeeperFunction];
+
+export type KeeperJob = KeeperCall & {
+  key: string;
+  kind: JobKind;
+  signer: LocalAccount;
+  description: string;
+};
+
+export type JobOutcome =
+  | "confirmed"
+  | "pending"
+  | "skipped" // the call would revert now; the job is simply not due
+  | "failed"
+  | "waiting" // a failed job inside its retry backoff
+  | "abandoned"; // out of attempts; stays in the log until an operator removes it
+
+export type RoundSummary = Record<JobOutcome, number>;
+
+export type Keeper = {
+  /** Settles transactions left pending by earlier rounds or runs, then discovers and runs due jobs once. */
+  runRound(): Promise<RoundSummary>;
+};
+
+type FinalizableResponse = { markets: Array<{ marketId: string }> };
+type ClaimableResponse = { claimable: Array<{ marketId: string; outcome: string }> };
+
+const errorMessage = (error: unknown) =>
+  error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+
+const revertReason = (error: unknown) => {
+  if (!(error instanceof BaseError)) return null;
+  const revert = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  return revert instanceof ContractFunctionRevertedError ? (revert.data?.errorName ?? revert.shortMessage) : null;
+};
+
+/**
+ * Maintenance jobs for one PredictionMarket deployment, discovered from indexed state:
+ *
+ * - `finalize`: finalizeMarket for markets past their dispute window. The contract restricts this to the owner, so
+ *   these jobs need the owner key.
+ * - `claim`: claimPayout for managed accounts holding winning positions in finalized markets. Claims pay out the
+ *   caller's own shares, so each account signs its own claims; payouts can be swept to a single recipient.
+ * - `cancelExpired`: cancelOrder for managed accounts' expired orders, which keep their stake locked until cancelled.
+ *
+ * Every job is simulated before it is signed, and a job whose call would revert (already finalized, already claimed,
+ * indexer behind the chain) is skipped without a transaction. Signed transactions are logged before broadcast and
+ * settled by hash and nonce, so neither a retry nor a restart submits the same job twice.
+ */
+export const createKeeper = ({
+  publicClient,
+  contract,
+  chainId,
+  indexer,
+  owner,
+  accounts,
+  payoutRecipient,
+  jobLog,
+  nonces,
+  maxFeePerGas,
+  maxGas,
+  maxAttempts,
+  retryDelayMs,
+  txTimeoutMs,
+  log = console.log,
+}: {
+  publicClient: PublicClient;
+  contract: Address;
+  chainId: number;
+  indexer: IndexerClient;
+  owner: LocalAccount | null;
+  accounts: LocalAccount[];
+  payoutRecipient?: Address;
+  jobLog: JobLog;
+  nonces: NonceTracker;
+  maxFeePerGas: bigint;
+  maxGas: bigint;
+  maxAttempts: number;
+  retryDelayMs: number;
+  txTimeoutMs: number;
+  log?: (message: string) => void;
+}): Keeper => {
+  const signers = new Map([...(owner ? [owner] : []), ...accounts].map((signer) => [signer.address, signer]));
+  const jobKey = (kind: JobKind, ...parts: string[]) => [kind, chainId, contract, ...parts].join(":");
+  // Scopes indexer reads to this deployment; other contracts on the same chain share market ids.
+  const deploymentSelector = { chainId: String(chainId), contract: contract.toLowerCase() };
+
+  for (const record of jobLog.pending()) {
+    if (record.nonce !== undefined) nonces.observe(record.signer, record.nonce);
+  }
+
+  const fail = (record: Pick<JobRecord, "key" | "kind" | "signer" | "attempts">, error: string): JobOutcome => {
+    const attempts = record.attempts + 1;
+    jobLog.write({
+      key: record.key,
+      kind: record.kind,
+      signer: record.signer,
+      status: "failed",
+      attempts,
+      retryAt: Date.now() + retryDelayMs * 2 ** (attempts - 1),
+      error,
+    });
+    log(`${record.key}: attempt ${attempts} of ${maxAttempts} failed: ${error}`);
+    return attempts >= maxAttempts ? "abandoned" : "failed";
+  };
+
+  const findReceipt = async (hashes: Hash[]): Promise<TransactionReceipt | null> => {
+    for (const hash of hashes) {
+      const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null);
+      if (receipt) return receipt;
+    }
+    return null;
+  };
+
+  const recordReceipt = (record: JobRecord, receipt: TransactionReceipt): JobOutcome => {
+    if (receipt.status !== "success") {
+      return fail(record, `transaction ${receipt.transactionHash} reverted`);
+    }
+    jobLog.write({ ...record, status: "confirmed", error: undefined });
+    log(`${record.key}: confirmed in ${receipt.transactionHash} (block ${receipt.blockNumber})`);
+    return "confirmed";
+  };
+
+  const awaitReceipt = async (record: JobRecord, hash: Hash, timeout: number): Promise<JobOutcome> => {
+    try {
+      return recordReceipt(record, await publicClient.waitForTransactionReceipt({ hash, timeout }));
+    } catch {
+      log(`${record.key}: ${hash} not mined yet`);
+      return "pending";
+    }
+  };
+
+  // Signs under `nonce`, logs the signed transaction, then broadcasts it. A failed broadcast leaves the job
+  // `submitted`: the logged transaction is re-sent when it is settled, never re-signed with a new nonce.
+  const signAndSend = async (
+    base: Pick<JobRecord, "key" | "kind" | "signer" | "attempts" | "hashes">,
+    signer: LocalAccount,
+    request: { to: Address; data: Hex; gas: bigint; nonce: number },
+    fees: Fees,
+  ): Promise<JobOutcome> => {
+    const rawTransaction = await signer.signTransaction({ type: "eip1559", chainId, ...request, ...fees });
+    const hash = keccak256(rawTransaction);
+    const record = jobLog.write({
+      ...base,
+      status: "submitted",
+      nonce: request.nonce,
+      hashes: [...(base.hashes ?? []), hash],
+      rawTransaction,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      submittedAt: Date.now(),
+      retryAt: undefined,
+      error: undefined,
+    });
+
+    try {
+      await publicClient.sendRawTransaction({ serializedTransaction: rawTransaction });
+    } catch (error) {
+      log(`${record.key}: broadcast of ${hash} failed, will re-send: ${errorMessage(error)}`);
+      return "pending";
+    }
+    log(`${record.key}: sent ${hash} (nonce ${request.nonce}, maxFeePerGas ${fees.maxFeePerGas})`);
+    return awaitReceipt(record, hash, txTimeoutMs);
+  };
+
+  // Resolves a `submitted` job: mined (either way), superseded by another transaction under its nonce, still
+  // pending (re-sent), or pending too long (re-priced under the same nonce, so only one can ever be mined).
+  const settle = async (record: JobRecord): Promise<JobOutcome> => {
+    const hashes = record.hashes ?? [];
+    const receipt = await findReceipt(hashes);
+    if (receipt) return recordReceipt(record, receipt);
+
+    const mined = await publicClient.getTransactionCount({ address: record.signer, blockTag: "latest" });
+    if (record.nonce === undefined || mined > record.nonce) {
+      // A re-run simulates first, so a job completed by someone else is skipped rather than repeated.
+      return fail(record, `nonce ${record.nonce} was used by another transaction`);
+    }
+
+    const signer = signers.get(record.signer);
+    if (!signer || !record.rawTransaction) {
+      log(`${record.key}: pending transaction from ${record.signer}, whose key is not configured`);
+      return "pending";
+    }
+
+    if (Date.now() - (record.submittedAt ?? 0) >= txTimeoutMs) {
+      const fees = await repriceTransaction(publicClient, maxFeePerGas, {
+        maxFeePerGas: BigInt(record.maxFeePerGas ?? 0),
+        maxPriorityFeePerGas: BigInt(record.maxPriorityFeePerGas ?? 0),
+      });
+      if (fees) {
+        const { to, data, gas } = parseTransaction(record.rawTransaction);
+        log(`${record.key}: re-pricing nonce ${record.nonce} after ${txTimeoutMs}ms unmined`);
+        return signAndSend(record, signer, { to: to!, data: data!, gas: gas!, nonce: record.nonce }, fees);
+      }
+      log(`${record.key}: at the maxFeePerGas cap; re-sending the pending transaction unchanged`);
+    }
+
+    await publicClient.sendRawTransaction({ serializedTransaction: record.rawTransaction }).catch(() => undefined);
+    const elapsed = Date.now() - (record.submittedAt ?? 0);
+    return awaitReceipt(record, hashes[hashes.length - 1]!, Math.max(txTimeoutMs - elapsed, 1_000));
+  };
+
+  // Returns null for jobs confirmed earlier, which stay listed until the indexer catches up with them.
+  const run = async (job: KeeperJob): Promise<JobOutcome | null> => {
+    const previous = jobLog.get(job.key);
+    if (previous?.status === "confirmed") return null;
+    if (previous?.status === "submitted") return "pending"; // settled at the start of the round
+    if (previous?.status === "failed") {
+      if (previous.attempts >= maxAttempts) return "abandoned";
+      if (Date.now() < (previous.retryAt ?? 0)) return "waiting";
+    }
+
+    const base = { key: job.key, kind: job.kind, signer: job.signer.address, attempts: previous?.attempts ?? 0 };
+    const call = { account: job.signer.address, address: contract, abi: predictionMarketAbi, args: job.args };
+
+    try {
+      await publicClient.simulateContract({ ...call, functionName: job.functionName });
+    } catch (error) {
+      log(`${job.key}: skipped, ${job.description} would revert: ${revertReason(error) ?? errorMessage(error)}`);
+      return "skipped";
+    }
+
+    let nonce: number | null = null;
+    try {
+      const data = encodeFunctionData({ abi: predictionMarketAbi, functionName: job.functionName, args: job.args });
+      const estimate = await publicClient.estimateGas({ account: job.signer.address, to: contract, data });
+      if (estimate > maxGas) {
+        return fail(base, `gas estimate ${estimate} exceeds the ${maxGas} cap`);
+      }
+      const fees = await priceTransaction(publicClient, maxFeePerGas);
+      const gas = (estimate * GAS_BUFFER_PERCENT) / 100n;
+
+      nonce = await nonces.next(job.signer.address);
+      log(`${job.key}: ${job.description}`);
+      return await signAndSend(base, job.signer, { to: contract, data, gas: gas < maxGas ? gas : maxGas, nonce }, fees);
+    } catch (error) {
+      // signAndSend handles its own failures once the transaction is logged, so the nonce was never used.
+      if (nonce !== null) nonces.release(job.signer.address, nonce);
+      return fail(base, errorMessage(error));
+    }
+  };
+
+  const discoverFinalizations = async (): Promise<KeeperJob[]> => {
+    if (!owner) return [];
+    const { markets } = await indexer.get<FinalizableResponse>("/markets/finalizable", {
+      ...deploymentSelector,
+      limit: DISCOVERY_LIMIT,
+    });
+    return markets.map((market) => ({
+      key: jobKey("finalize", market.marketId),
+      kind: "finalize",
+      signer: owner,
+      functionName: "finalizeMarket",
+      args: [BigInt(market.marketId)],
+      description: `finalizeMarket(${market.marketId})`,
+    }));
+  };
+
+  const discoverClaims = async (account: LocalAccount): Promise<KeeperJob[]> => {
+    const { claimable } = await indexer.get<ClaimableResponse>(
+      `/traders/${account.address.toLowerCase()}/claimable`,
+      deploymentSelector,
+    );
+    const recipient = payoutRecipient ?? account.address;
+    return claimable.flatMap((claim): KeeperJob[] => {
+      const position = OUTCOME_INDEX[claim.outcome];
+      if (position === undefined) return [];
+      return [
+        {
+          key: jobKey("claim", claim.marketId, account.address.toLowerCase()),
+          kind: "claim",
+          signer: account,
+          functionName: "claimPayout",
+          args: [BigInt(claim.marketId), position, recipient],
+          description: `claimPayout(${claim.marketId}, ${claim.outcome}) for ${account.address} to ${recipient}`,
+        },
+      ];
+    });
+  };
+
+  // Order expiry is read from the contract: it is a property of block time, which the indexer only approximates.
+  const discoverExpiredOrders = async (account: LocalAccount, now: bigint): Promise<KeeperJob[]> => {
+    const orders = await publicClient.readContract({
+      address: contract,
+      abi: predictionMarketAbi,
+      functionName: "getOrdersByOwner",
+      args: [account.address],
+    });
+
+    return orders
+      .filter((order) => order.active && order.expirationEpoch !== 0n && order.expirationEpoch < now)
+      .map((order) => ({
+        key: jobKey("cancelExpired", order.orderId.toString()),
+        kind: "cancelExpired",
+        signer: account,
+        functionName: "cancelOrder",
+        args: [order.orderId],
+        description: `cancelOrder(${order.orderId}) for ${account.address}, expired at ${order.expirationEpoch}`,
+      }));
+  };
+
+  const discover = async (): Promise<KeeperJob[]> => {
+    const now = await chainTime(publicClient);
+    const sources = [
+      discoverFinalizations(),
+      ...accounts.map(discoverClaims),
+      ...accounts.map((account) => discoverExpiredOrders(account, now)),
+    ];
+
+    const jobs: KeeperJob[] = [];
+    for (const result of await Promise.allSettled(sources)) {
+      if (result.status === "fulfilled") jobs.push(...result.value);
+      else log(`Job discovery failed: ${errorMessage(result.reason)}`);
+    }
+    return jobs;
+  };
+
+  return {
+    runRound: async () => {
+      const summary: RoundSummary = { confirmed: 0, pending: 0, skipped: 0, failed: 0, waiting: 0, abandoned: 0 };
+      const settled = new Set<string>();
+
+      for (const record of jobLog.pending()) {
+        settled.add(record.key);
+        try {
+          summary[await settle(record)] += 1;
+        } catch (error) {
+          log(`${record.key}: could not settle: ${errorMessage(error)}`);
+          summary.pending += 1;
+        }
+      }
+
+      // Jobs run one at a time, so each signer's nonces are handed out in order.
+      for (const job of await discover()) {
+        if (settled.has(job.key)) continue;
+        const outcome = await run(job);
+        if (outcome) summary[outcome] += 1;
+      }
+      return summary;
+    },
+  };
+};
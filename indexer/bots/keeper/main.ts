@@ -0,0 +1,76 @@
+// Finalizes markets past their dispute window, claims payouts for managed accounts and cancels their expired orders.
+//
+//   KEEPER_RPC_URL=http://localhost:8545 KEEPER_CONTRACT=0x... KEEPER_OWNER_KEY=0x... \
+//     KEEPER_ACCOUNT_KEYS=0x...,0x... pnpm keeper
+//
+// Jobs are recorded in KEEPER_JOB_LOG (default .keeper/jobs.jsonl); keep it across restarts, since it is what stops
+// a transaction still in flight from being sent again. KEEPER_ONCE=true runs a single round and exits non-zero when
+// a job failed or is still pending. When the API serves several deployments on the keeper's chain, set
+// KEEPER_DEPLOYMENT to the one KEEPER_CONTRACT belongs to. See config.ts for the remaining KEEPER_* settings.
+import type { Address } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { sleep } from "../common/async";
+import { createChainClients } from "../common/chain";
+import { createIndexerClient } from "../common/indexer";
+import { loadKeeperConfig } from "./config";
+import { openJobLog } from "./jobs";
+import { createKeeper } from "./keeper";
+import { createNonceTracker } from "./transactions";
+
+const config = loadKeeperConfig();
+const { publicClient, contract } = createChainClients({ rpcUrl: config.rpcUrl, contract: config.contract });
+const owner = config.ownerKey ? privateKeyToAccount(config.ownerKey) : null;
+const accounts = config.accountKeys.map((key) => privateKeyToAccount(key));
+const jobLog = openJobLog(config.jobLogPath);
+
+const keeper = createKeeper({
+  publicClient,
+  contract: contract as Address,
+  chainId: await publicClient.getChainId(),
+  indexer: createIndexerClient({ apiUrl: config.apiUrl, deployment: config.deployment }),
+  owner,
+  accounts,
+  payoutRecipient: config.payoutRecipient,
+  jobLog,
+  nonces: createNonceTracker(publicClient),
+  maxFeePerGas: config.maxFeePerGas,
+  maxGas: config.maxGas,
+  maxAttempts: config.maxAttempts,
+  retryDelayMs: config.retryDelayMs,
+  txTimeoutMs: config.txTimeoutMs,
+});
+
+console.log(
+  `Keeping ${contract}: finalizing as ${owner?.address ?? "nobody"}, managing ${accounts.length} account(s), ` +
+    `job log ${config.jobLogPath}`,
+);
+
+const controller = new AbortController();
+process.once("SIGINT", () => controller.abort());
+process.once("SIGTERM", () => controller.abort());
+
+let exitCode = 0;
+while (!controller.signal.aborted) {
+  const summary = await keeper.runRound().catch((error: unknown) => {
+    console.error(`Round failed: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  });
+  if (summary) {
+    console.log(
+      Object.entries(summary)
+        .map(([outcome, count]) => `${outcome}=${count}`)
+        .join(" "),
+    );
+  }
+
+  if (config.once) {
+    const unsettled = !summary || summary.failed + summary.abandoned + summary.pending > 0;
+    exitCode = unsettled ? 1 : 0;
+    break;
+  }
+  await sleep(config.pollMs, controller.signal);
+}
+
+jobLog.close();
+process.exit(exitCode);
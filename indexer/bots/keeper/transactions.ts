@@ -0,0 +1,64 @@
+import type { Address, PublicClient } from "viem";
+
+export type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+export type NonceTracker = {
+  /** Reserves the next nonce for the account. */
+  next(address: Address): Promise<number>;
+  /** Hands back a reserved nonce that was never signed into a logged transaction, so no gap is left. */
+  release(address: Address, nonce: number): void;
+  /** Marks a nonce as used by a logged transaction that may not have reached the node yet. */
+  observe(address: Address, nonce: number): void;
+};
+
+// The node's pending count misses transactions that were signed and logged but not yet broadcast (e.g. before a
+// crash), so reservations never go below what this process has already handed out.
+export const createNonceTracker = (publicClient: PublicClient): NonceTracker => {
+  const local = new Map<Address, number>();
+
+  return {
+    next: async (address) => {
+      const pending = await publicClient.getTransactionCount({ address, blockTag: "pending" });
+      const nonce = Math.max(pending, local.get(address) ?? 0);
+      local.set(address, nonce + 1);
+      return nonce;
+    },
+
+    release: (address, nonce) => {
+      if (local.get(address) === nonce + 1) local.set(address, nonce);
+    },
+
+    observe: (address, nonce) => {
+      if ((local.get(address) ?? 0) <= nonce) local.set(address, nonce + 1);
+    },
+  };
+};
+
+// Nodes only accept a replacement under the same nonce when both fee fields rise by at least 10%.
+const REPLACEMENT_BUMP_PERCENT = 125n;
+
+const atMost = (value: bigint, cap: bigint) => (value < cap ? value : cap);
+const atLeast = (value: bigint, floor: bigint) => (value > floor ? value : floor);
+
+/** Prices a transaction at the node's current estimate, never above `cap`. */
+export const priceTransaction = async (publicClient: PublicClient, cap: bigint): Promise<Fees> => {
+  const estimate = await publicClient.estimateFeesPerGas();
+  const maxFeePerGas = atMost(estimate.maxFeePerGas, cap);
+  return { maxFeePerGas, maxPriorityFeePerGas: atMost(estimate.maxPriorityFeePerGas, maxFeePerGas) };
+};
+
+/** Prices a replacement for a transaction sent with `previous`; null when `cap` leaves no room for the bump. */
+export const repriceTransaction = async (
+  publicClient: PublicClient,
+  cap: bigint,
+  previous: Fees,
+): Promise<Fees | null> => {
+  const estimate = await priceTransaction(publicClient, cap);
+  const maxFeePerGas = atLeast(estimate.maxFeePerGas, (previous.maxFeePerGas * REPLACEMENT_BUMP_PERCENT) / 100n + 1n);
+  const maxPriorityFeePerGas = atLeast(
+    estimate.maxPriorityFeePerGas,
+    (previous.maxPriorityFeePerGas * REPLACEMENT_BUMP_PERCENT) / 100n + 1n,
+  );
+  if (maxFeePerGas > cap) return null;
+  return { maxFeePerGas, maxPriorityFeePerGas: atMost(maxPriorityFeePerGas, maxFeePerGas) };
+};
@@ -0,0 +1,122 @@
+import { isAddress } from "viem";
+
+import { bigintFrom, numberFrom } from "../common/env";
+import type { Env } from "../common/env";
+import type { QuoteParams } from "./quotes";
+
+export type MarketQuoteConfig = QuoteParams & { marketId: string };
+
+export type MarketMakerConfig = {
+  apiUrl: string;
+  deployment?: string;
+  rpcUrl: string;
+  contract: string;
+  privateKey?: string;
+  /** Account whose orders and positions are managed; derived from the key unless running dry without one. */
+  trader?: string;
+  markets: MarketQuoteConfig[];
+  /** Lifetime given to each quote; orders are also never set to outlive the market's closeEpoch. */
+  orderTtlSeconds: bigint;
+  /** Quotes are pulled this long before closeEpoch, when submitOrder would start reverting anyway. */
+  closeBufferSeconds: bigint;
+  /** Resting quotes within this many basis points of the target price are left in place. */
+  requoteBps: bigint;
+  pollMs: number;
+  dryRun: boolean;
+  simulateFills: boolean;
+  simulatedFillMs: number;
+  simulatedFillProbability: number;
+};
+
+const parseMarkets = (raw: string | undefined, defaults: Omit<QuoteParams, "fairValue">): MarketQuoteConfig[] => {
+  if (!raw) {
+    throw new Error('MM_MARKETS must list the markets to quote, e.g. [{"marketId":"1","fairValue":"550000"}]');
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    throw new Error("MM_MARKETS must be a JSON array.");
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("MM_MARKETS must be a non-empty JSON array.");
+  }
+
+  return entries.map((entry: Record<string, unknown>, index) => {
+    const field = (name: keyof QuoteParams, fallback?: bigint) => {
+      const value = entry[name] ?? fallback?.toString();
+      if (value === undefined || !/^\d+$/.test(String(value))) {
+        throw new Error(`Invalid ${name} for market ${index} in MM_MARKETS: ${String(value)}`);
+      }
+      return BigInt(String(value));
+    };
+
+    const marketId = String(entry.marketId ?? "");
+    if (!/^\d+$/.test(marketId)) {
+      throw new Error(`Invalid marketId for market ${index} in MM_MARKETS: ${marketId}`);
+    }
+
+    return {
+      marketId,
+      fairValue: field("fairValue"),
+      spreadBps: field("spreadBps", defaults.spreadBps),
+      size: field("size", defaults.size),
+      maxInventory: field("maxInventory", defaults.maxInventory),
+      skewBps: field("skewBps", defaults.skewBps),
+    };
+  });
+};
+
+/**
+ * Reads MM_* variables. MM_MARKETS is a JSON array of `{ marketId, fairValue, spreadBps?, size?, maxInventory?,
+ * skewBps? }`; omitted fields fall back to MM_SPREAD_BPS, MM_SIZE, MM_MAX_INVENTORY and MM_SKEW_BPS.
+ */
+export const loadMarketMakerConfig = (env: Env = process.env): MarketMakerConfig => {
+  const rpcUrl = env.MM_RPC_URL ?? env.PONDER_RPC_URL;
+  if (!rpcUrl) {
+    throw new Error("Missing MM_RPC_URL.");
+  }
+
+  const contract = env.MM_CONTRACT ?? env.PREDICTION_MARKET_ADDRESS;
+  if (!contract || !isAddress(contract)) {
+    throw new Error(`MM_CONTRACT must be the PredictionMarket address, got ${contract}`);
+  }
+
+  const dryRun = env.MM_DRY_RUN === "true";
+  const simulateFills = env.MM_SIMULATE_FILLS === "true";
+  if (simulateFills && !dryRun) {
+    throw new Error("MM_SIMULATE_FILLS requires MM_DRY_RUN=true.");
+  }
+  if (!dryRun && !env.MM_PRIVATE_KEY) {
+    throw new Error("MM_PRIVATE_KEY is required unless MM_DRY_RUN=true.");
+  }
+  if (!env.MM_PRIVATE_KEY && (!env.MM_TRADER || !isAddress(env.MM_TRADER))) {
+    throw new Error("Set MM_TRADER to the quoting account when running without MM_PRIVATE_KEY.");
+  }
+
+  const size = bigintFrom(env, "MM_SIZE", 1_000_000n);
+
+  return {
+    apiUrl: env.MM_API_URL ?? "http://localhost:42069",
+    deployment: env.MM_DEPLOYMENT,
+    rpcUrl,
+    contract,
+    privateKey: env.MM_PRIVATE_KEY,
+    trader: env.MM_TRADER,
+    markets: parseMarkets(env.MM_MARKETS, {
+      spreadBps: bigintFrom(env, "MM_SPREAD_BPS", 200n),
+      size,
+      maxInventory: bigintFrom(env, "MM_MAX_INVENTORY", size * 10n),
+      skewBps: bigintFrom(env, "MM_SKEW_BPS", 100n),
+    }),
+    orderTtlSeconds: bigintFrom(env, "MM_ORDER_TTL", 300n),
+    closeBufferSeconds: bigintFrom(env, "MM_CLOSE_BUFFER", 60n),
+    requoteBps: bigintFrom(env, "MM_REQUOTE_BPS", 10n),
+    pollMs: numberFrom(env, "MM_POLL_MS", 5_000),
+    dryRun,
+    simulateFills,
+    simulatedFillMs: numberFrom(env, "MM_SIMULATED_FILL_MS", 3_000),
+    simulatedFillProbability: numberFrom(env, "MM_SIMULATED_FILL_PROBABILITY", 0.3),
+  };
+};
@@ -0,0 +1,60 @@
+import { sleep } from "../common/async";
+import type { IndexerClient } from "../common/indexer";
+import type { DryRunVenue } from "./venue";
+
+export type FillEvent = { marketId: string; orderId: string; quantity: bigint; remaining: bigint };
+
+/** Pushes fills of resting orders to the quoting loop until the signal aborts. */
+export type FillFeed = (onFill: (fill: FillEvent) => void, signal: AbortSignal) => Promise<void>;
+
+const RECONNECT_DELAY_MS = 2_000;
+
+// Follows each market's SSE stream and reports `orderFilled` messages; reconnects after errors. Fills of other
+// traders' orders are reported too, since they move the book the quotes sit in.
+export const createIndexerFillFeed =
+  (indexer: IndexerClient, marketIds: string[], log: (message: string) => void = console.warn): FillFeed =>
+  async (onFill, signal) => {
+    const follow = async (marketId: string) => {
+      while (!signal.aborted) {
+        try {
+          for await (const message of indexer.stream(`/markets/${marketId}/stream`, signal)) {
+            if (message.event !== "orderFilled") continue;
+            onFill({
+              marketId,
+              orderId: String(message.data.orderId),
+              quantity: BigInt(String(message.data.quantity)),
+              remaining: BigInt(String(message.data.remaining)),
+            });
+          }
+        } catch (error) {
+          if (signal.aborted) return;
+          log(`Fill stream for market ${marketId} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await sleep(RECONNECT_DELAY_MS, signal);
+      }
+    };
+
+    await Promise.all(marketIds.map(follow));
+  };
+
+// Every interval, each resting dry-run quote is hit with the given probability for a random part of what remains.
+export const createSimulatedFillFeed =
+  (
+    venue: DryRunVenue,
+    { intervalMs, probability, random = Math.random }: { intervalMs: number; probability: number; random?: () => number },
+  ): FillFeed =>
+  async (onFill, signal) => {
+    while (!signal.aborted) {
+      await sleep(intervalMs, signal);
+      for (const order of venue.restingOrders()) {
+        if (random() >= probability) continue;
+
+        const remaining = order.quantity - order.filled;
+        const quantity = (remaining * BigInt(Math.ceil(random() * 100))) / 100n || remaining;
+        const filled = venue.applyFill(order.orderId, quantity);
+        if (filled > 0n) {
+          onFill({ marketId: order.marketId, orderId: order.orderId, quantity: filled, remaining: remaining - filled });
+        }
+      }
+    }
+  };
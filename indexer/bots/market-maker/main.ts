@@ -0,0 +1,65 @@
+// Quotes both sides of the configured markets and keeps the quotes current.
+//
+//   MM_RPC_URL=http://localhost:8545 MM_CONTRACT=0x... MM_PRIVATE_KEY=0x... \
+//     MM_MARKETS='[{"marketId":"1","fairValue":"550000"}]' pnpm market-maker
+//
+// With MM_DRY_RUN=true the loop reads the chain (e.g. a local Anvil node) and the indexer but only logs the orders it
+// would place and cancel; add MM_SIMULATE_FILLS=true to hit those quotes with random fills. See config.ts for the
+// remaining MM_* settings.
+import { getAddress } from "viem";
+import type { Address } from "viem";
+
+import { createChainClients } from "../common/chain";
+import { createIndexerClient } from "../common/indexer";
+import { loadMarketMakerConfig } from "./config";
+import { createIndexerFillFeed, createSimulatedFillFeed } from "./fills";
+import { createMarketMaker } from "./maker";
+import { createChainVenue, createDryRunVenue } from "./venue";
+
+const config = loadMarketMakerConfig();
+const clients = createChainClients({ rpcUrl: config.rpcUrl, contract: config.contract, privateKey: config.privateKey });
+const trader = (clients.walletClient?.account.address ?? getAddress(config.trader!)).toLowerCase() as Address;
+const indexer = createIndexerClient({ apiUrl: config.apiUrl, deployment: config.deployment });
+
+const chainVenue = createChainVenue(clients, trader);
+const dryRunVenue = config.dryRun ? createDryRunVenue(chainVenue) : null;
+const venue = dryRunVenue ?? chainVenue;
+
+const maker = createMarketMaker({
+  markets: config.markets,
+  venue,
+  indexer,
+  orderTtlSeconds: config.orderTtlSeconds,
+  closeBufferSeconds: config.closeBufferSeconds,
+  requoteBps: config.requoteBps,
+});
+
+const marketIds = config.markets.map((market) => market.marketId);
+const fillFeed =
+  dryRunVenue && config.simulateFills
+    ? createSimulatedFillFeed(dryRunVenue, {
+        intervalMs: config.simulatedFillMs,
+        probability: config.simulatedFillProbability,
+      })
+    : createIndexerFillFeed(indexer, marketIds);
+
+const controller = new AbortController();
+const feed = fillFeed((fill) => {
+  console.log(`market ${fill.marketId}: order ${fill.orderId} filled ${fill.quantity}, ${fill.remaining} left`);
+  void maker.reconcile(fill.marketId);
+}, controller.signal);
+
+console.log(`Quoting markets ${marketIds.join(", ")} as ${trader} on the ${venue.name} venue`);
+await maker.reconcileAll();
+const timer = setInterval(() => void maker.reconcileAll(), config.pollMs);
+
+const shutdown = async () => {
+  clearInterval(timer);
+  controller.abort();
+  await feed;
+  await maker.cancelAll();
+  process.exit(0);
+};
+
+process.once("SIGINT", () => void shutdown());
+process.once("SIGTERM", () => void shutdown());
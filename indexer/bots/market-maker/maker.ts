@@ -0,0 +1,153 @@
+import type { IndexerClient } from "../common/indexer";
+import type { MarketQuoteConfig } from "./config";
+import { computeQuotes, PRICE_SCALE } from "./quotes";
+import type { Inventory, Quote, StrictOutcome } from "./quotes";
+import type { RestingOrder, Venue } from "./venue";
+
+const BPS = 10_000n;
+
+export type MarketMaker = {
+  /** Brings one market's resting quotes in line with its target quotes; calls for a market never overlap. */
+  reconcile(marketId: string): Promise<void>;
+  reconcileAll(): Promise<void>;
+  /** Pulls every resting quote, e.g. on shutdown. */
+  cancelAll(): Promise<void>;
+};
+
+export const createMarketMaker = ({
+  markets,
+  venue,
+  indexer,
+  orderTtlSeconds,
+  closeBufferSeconds,
+  requoteBps,
+  log = console.log,
+}: {
+  markets: MarketQuoteConfig[];
+  venue: Venue;
+  indexer: IndexerClient;
+  orderTtlSeconds: bigint;
+  closeBufferSeconds: bigint;
+  requoteBps: bigint;
+  log?: (message: string) => void;
+}): MarketMaker => {
+  const byId = new Map(markets.map((market) => [market.marketId, market]));
+  const running = new Map<string, Promise<void>>();
+  const requoteTolerance = (requoteBps * PRICE_SCALE) / BPS;
+
+  // Positions come from the indexer's positions table; the venue adds fills it has not indexed (dry runs).
+  const loadInventory = async (marketId: string): Promise<Inventory> => {
+    const portfolio = await indexer.getPortfolio(venue.trader);
+    const pending = venue.pendingInventory(marketId);
+    const inventory = { ...pending };
+    for (const position of portfolio.positions) {
+      if (position.marketId !== marketId) continue;
+      if (position.outcome === "Yes") inventory.yes += BigInt(position.shares);
+      if (position.outcome === "No") inventory.no += BigInt(position.shares);
+    }
+    return inventory;
+  };
+
+  const cancel = async (order: RestingOrder, reason: string) => {
+    log(`market ${order.marketId}: cancel ${order.position} order ${order.orderId} at ${order.price} (${reason})`);
+    await venue.cancel(order.orderId);
+  };
+
+  // A resting quote is kept while it sits near the target price, still has the full target size (a partial fill
+  // triggers a re-quote) and has at least a quarter of its lifetime left.
+  const staleReason = (order: RestingOrder, target: Quote | null, now: bigint): string | null => {
+    if (!target) return "side withdrawn";
+    const distance = order.price > target.price ? order.price - target.price : target.price - order.price;
+    if (distance > requoteTolerance) return `target moved to ${target.price}`;
+    if (order.quantity - order.filled !== target.quantity) return "size changed";
+    if (order.expirationEpoch !== 0n && order.expirationEpoch - now < orderTtlSeconds / 4n) return "expiring";
+    return null;
+  };
+
+  const syncSide = async (
+    marketId: string,
+    position: StrictOutcome,
+    resting: RestingOrder[],
+    target: Quote | null,
+    now: bigint,
+    expirationEpoch: bigint,
+  ) => {
+    let kept = false;
+    for (const order of resting.filter((candidate) => candidate.position === position)) {
+      const reason = kept ? "duplicate quote" : staleReason(order, target, now);
+      if (reason) {
+        await cancel(order, reason);
+      } else {
+        kept = true;
+      }
+    }
+
+    if (!kept && target) {
+      const orderId = await venue.submit(marketId, target, expirationEpoch);
+      log(`market ${marketId}: quoted ${position} ${target.quantity} at ${target.price} as order ${orderId}`);
+    }
+  };
+
+  const reconcileMarket = async (marketId: string) => {
+    const params = byId.get(marketId);
+    if (!params) return;
+
+    const [market, now, resting] = await Promise.all([
+      indexer.getMarket(marketId),
+      venue.now(),
+      venue.openOrders(marketId),
+    ]);
+    if (!market) {
+      log(`market ${marketId}: not indexed yet`);
+      return;
+    }
+
+    // submitOrder requires an Active market inside [openEpoch, closeEpoch] and an approved trader.
+    const openEpoch = BigInt(market.openEpoch);
+    const closeEpoch = BigInt(market.closeEpoch);
+    let pause: string | null = null;
+    if (market.status !== "Active") pause = `market is ${market.status}`;
+    else if (now < openEpoch) pause = "market not open yet";
+    else if (now + closeBufferSeconds >= closeEpoch) pause = "market closing";
+    else if (!(await venue.canTrade())) pause = "trader not approved";
+
+    if (pause) {
+      for (const order of resting) await cancel(order, pause);
+      return;
+    }
+
+    const { bid, ask } = computeQuotes(params, await loadInventory(marketId));
+    const expirationEpoch = now + orderTtlSeconds < closeEpoch ? now + orderTtlSeconds : closeEpoch;
+
+    await syncSide(marketId, "Yes", resting, bid, now, expirationEpoch);
+    await syncSide(marketId, "No", resting, ask, now, expirationEpoch);
+  };
+
+  const reconcile = (marketId: string) => {
+    const previous = running.get(marketId) ?? Promise.resolve();
+    const next = previous
+      .then(() => reconcileMarket(marketId))
+      .catch((error) => {
+        log(`market ${marketId}: reconcile failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    running.set(marketId, next);
+    return next;
+  };
+
+  return {
+    reconcile,
+
+    reconcileAll: async () => {
+      await Promise.all(markets.map((market) => reconcile(market.marketId)));
+    },
+
+    cancelAll: async () => {
+      await Promise.all([...running.values()]);
+      for (const market of markets) {
+        for (const order of await venue.openOrders(market.marketId)) {
+          await cancel(order, "shutting down");
+        }
+      }
+    },
+  };
+};
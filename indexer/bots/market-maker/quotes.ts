@@ -0,0 +1,58 @@
+import { PRICE_SCALE } from "@infinite-markets/sdk/constants";
+import type { StrictOutcome } from "@infinite-markets/sdk/constants";
+
+export { PRICE_SCALE };
+export type { StrictOutcome };
+
+const BPS = 10_000n;
+
+export type QuoteParams = {
+  /** Yes-denominated fair value scaled by 1e6. */
+  fairValue: bigint;
+  /** Full bid/ask width in basis points of a whole share (100 bps = 0.01). */
+  spreadBps: bigint;
+  /** Quantity quoted on each side. */
+  size: bigint;
+  /** Net Yes-minus-No shares beyond which the side adding inventory stops quoting. */
+  maxInventory: bigint;
+  /** Shift of the quote midpoint, in basis points, when the book is at maxInventory. */
+  skewBps: bigint;
+};
+
+export type Inventory = { yes: bigint; no: bigint };
+
+// Order prices are Yes-denominated for both sides: the bid is a Yes maker order and the ask a No maker order
+// offering Yes at that price, so both quotes are submitted as limit orders on the same price axis.
+export type Quote = { position: StrictOutcome; price: bigint; quantity: bigint };
+
+const clampPrice = (price: bigint) => {
+  if (price < 1n) return 1n;
+  if (price > PRICE_SCALE - 1n) return PRICE_SCALE - 1n;
+  return price;
+};
+
+const clamp = (value: bigint, bound: bigint) => (value > bound ? bound : value < -bound ? -bound : value);
+
+/**
+ * Two-sided quotes around the fair value. Inventory skews the midpoint against the position (long Yes lowers
+ * both quotes) and shrinks the side that would grow it, down to nothing at maxInventory.
+ */
+export const computeQuotes = (params: QuoteParams, inventory: Inventory): { bid: Quote | null; ask: Quote | null } => {
+  const net = inventory.yes - inventory.no;
+  const skew =
+    params.maxInventory === 0n ? 0n : (params.skewBps * PRICE_SCALE * clamp(net, params.maxInventory)) / (BPS * params.maxInventory);
+  const halfSpread = (params.spreadBps * PRICE_SCALE) / (2n * BPS);
+  const center = params.fairValue - skew;
+
+  const bidPrice = clampPrice(center - halfSpread);
+  const askPrice = clampPrice(center + halfSpread);
+  const bidRoom = params.maxInventory - net;
+  const askRoom = params.maxInventory + net;
+  const bidSize = bidRoom < params.size ? bidRoom : params.size;
+  const askSize = askRoom < params.size ? askRoom : params.size;
+
+  return {
+    bid: bidSize > 0n ? { position: "Yes", price: bidPrice, quantity: bidSize } : null,
+    ask: askSize > 0n && askPrice > bidPrice ? { position: "No", price: askPrice, quantity: askSize } : null,
+  };
+};
@@ -0,0 +1,236 @@
+import { erc20Abi, maxUint256, parseEventLogs, zeroAddress } from "viem";
+import type { Address, Hash } from "viem";
+import { predictionMarketAbi } from "@infinite-markets/sdk";
+import { stakeFor } from "@infinite-markets/sdk/math";
+
+import { chainTime } from "../common/chain";
+import type { ChainClients } from "../common/chain";
+import type { Inventory, Quote, StrictOutcome } from "./quotes";
+
+const OUTCOME_INDEX: Record<StrictOutcome, number> = { Yes: 1, No: 2 };
+const GOOD_TIL_CANCEL = 0;
+
+export type RestingOrder = {
+  orderId: string;
+  marketId: string;
+  position: StrictOutcome;
+  price: bigint;
+  quantity: bigint;
+  filled: bigint;
+  expirationEpoch: bigint;
+};
+
+/** Where quotes are placed: the PredictionMarket contract, or an in-memory book for dry runs. */
+export interface Venue {
+  readonly name: string;
+  readonly trader: Address;
+  now(): Promise<bigint>;
+  /** False while trader approval is required and the trader is not approved; submitOrder would revert. */
+  canTrade(): Promise<boolean>;
+  openOrders(marketId: string): Promise<RestingOrder[]>;
+  submit(marketId: string, quote: Quote, expirationEpoch: bigint): Promise<string>;
+  cancel(orderId: string): Promise<void>;
+  /** Inventory not yet visible in the indexer's positions, e.g. from simulated fills. */
+  pendingInventory(marketId: string): Inventory;
+}
+
+export const createChainVenue = (clients: ChainClients, trader: Address): Venue => {
+  const { publicClient, walletClient, contract } = clients;
+  let paymentToken: Address | null = null;
+
+  const requireWallet = () => {
+    if (!walletClient) {
+      throw new Error("A private key is required to send transactions.");
+    }
+    return walletClient;
+  };
+
+  const confirm = async (hash: Hash) => {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return receipt;
+  };
+
+  // submitOrder pulls the maker stake with transferFrom, so the contract needs an allowance on the payment token.
+  const ensureAllowance = async (amount: bigint) => {
+    paymentToken ??= await publicClient.readContract({
+      address: contract,
+      abi: predictionMarketAbi,
+      functionName: "paymentToken",
+    });
+
+    const allowance = await publicClient.readContract({
+      address: paymentToken,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [trader, contract],
+    });
+    if (allowance >= amount) return;
+
+    const wallet = requireWallet();
+    await confirm(
+      await wallet.writeContract({
+        address: paymentToken,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [contract, maxUint256],
+        chain: null,
+      }),
+    );
+  };
+
+  return {
+    name: "chain",
+    trader,
+
+    now: () => chainTime(publicClient),
+
+    canTrade: async () => {
+      const required = await publicClient.readContract({
+        address: contract,
+        abi: predictionMarketAbi,
+        functionName: "traderApprovalRequired",
+      });
+      if (!required) return true;
+      return publicClient.readContract({
+        address: contract,
+        abi: predictionMarketAbi,
+        functionName: "isTraderApproved",
+        args: [trader],
+      });
+    },
+
+    openOrders: async (marketId) => {
+      // Expired orders stay active, with their stake locked, until cancelled, so they are reported too.
+      const orders = await publicClient.readContract({
+        address: contract,
+        abi: predictionMarketAbi,
+        functionName: "getOrdersByOwner",
+        args: [trader],
+      });
+
+      return orders
+        .filter((order) => order.active && order.marketId.toString() === marketId && order.quantity > order.filled)
+        .map((order) => ({
+          orderId: order.orderId.toString(),
+          marketId,
+          position: order.position === OUTCOME_INDEX.Yes ? "Yes" : "No",
+          price: order.price,
+          quantity: order.quantity,
+          filled: order.filled,
+          expirationEpoch: order.expirationEpoch,
+        }));
+    },
+
+    submit: async (marketId, quote, expirationEpoch) => {
+      await ensureAllowance(stakeFor(quote.position, quote.price, quote.quantity));
+
+      const receipt = await confirm(
+        await requireWallet().writeContract({
+          address: contract,
+          abi: predictionMarketAbi,
+          functionName: "submitOrder",
+          args: [
+            {
+              marketId: BigInt(marketId),
+              position: OUTCOME_INDEX[quote.position],
+              price: quote.price,
+              quantity: quote.quantity,
+              orderType: GOOD_TIL_CANCEL,
+              expirationEpoch,
+              recipient: zeroAddress,
+            },
+          ],
+          chain: null,
+        }),
+      );
+
+      const [placed] = parseEventLogs({
+        abi: predictionMarketAbi,
+        eventName: "OrderPlaced",
+        logs: receipt.logs,
+      });
+      if (!placed) {
+        throw new Error(`No OrderPlaced event in ${receipt.transactionHash}`);
+      }
+      return placed.args.orderId.toString();
+    },
+
+    cancel: async (orderId) => {
+      await confirm(
+        await requireWallet().writeContract({
+          address: contract,
+          abi: predictionMarketAbi,
+          functionName: "cancelOrder",
+          args: [BigInt(orderId)],
+          chain: null,
+        }),
+      );
+    },
+
+    pendingInventory: () => ({ yes: 0n, no: 0n }),
+  };
+};
+
+export type DryRunVenue = Venue & {
+  /** Records a simulated fill against a dry-run order; returns the filled quantity. */
+  applyFill(orderId: string, quantity: bigint): bigint;
+  restingOrders(): RestingOrder[];
+};
+
+/**
+ * Reads time and approval state from the chain (typically a local Anvil node) but keeps quotes in memory, so the
+ * quoting loop can run end to end without sending transactions.
+ */
+export const createDryRunVenue = (chain: Venue, log: (message: string) => void = console.log): DryRunVenue => {
+  const orders = new Map<string, RestingOrder>();
+  const inventory = new Map<string, Inventory>();
+  let sequence = 0;
+
+  return {
+    name: "dry-run",
+    trader: chain.trader,
+    now: () => chain.now(),
+    canTrade: () => chain.canTrade(),
+
+    openOrders: async (marketId) => [...orders.values()].filter((order) => order.marketId === marketId),
+
+    submit: async (marketId, quote, expirationEpoch) => {
+      sequence += 1;
+      const orderId = `dry-${sequence}`;
+      orders.set(orderId, { orderId, marketId, ...quote, filled: 0n, expirationEpoch });
+      log(
+        `[dry-run] submitOrder market=${marketId} ${quote.position} price=${quote.price} quantity=${quote.quantity} expires=${expirationEpoch} -> ${orderId}`,
+      );
+      return orderId;
+    },
+
+    cancel: async (orderId) => {
+      orders.delete(orderId);
+      log(`[dry-run] cancelOrder ${orderId}`);
+    },
+
+    pendingInventory: (marketId) => inventory.get(marketId) ?? { yes: 0n, no: 0n },
+
+    applyFill: (orderId, quantity) => {
+      const order = orders.get(orderId);
+      if (!order) return 0n;
+
+      const remaining = order.quantity - order.filled;
+      const filled = quantity < remaining ? quantity : remaining;
+      order.filled += filled;
+      if (order.filled === order.quantity) orders.delete(orderId);
+
+      // A filled Yes maker order holds Yes shares; a No maker order holds No shares.
+      const held = inventory.get(order.marketId) ?? { yes: 0n, no: 0n };
+      if (order.position === "Yes") held.yes += filled;
+      else held.no += filled;
+      inventory.set(order.marketId, held);
+      return filled;
+    },
+
+    restingOrders: () => [...orders.values()],
+  };
+};
@@ -0,0 +1,41 @@
+import { numberFrom } from "../common/env";
+import type { Env } from "../common/env";
+
+export type MetadataWorkerConfig = {
+  databaseUrl: string;
+  /** Schema Ponder indexes into, where the recorded metadata URIs are read from. */
+  databaseSchema: string;
+  /** How long documents behind mutable URIs (https) are served before they are fetched again. */
+  ttlMs: number;
+  /** How long a document that could not be fetched waits before the next attempt. */
+  retryMs: number;
+  /** Documents fetched per round. */
+  batchSize: number;
+  concurrency: number;
+  pollMs: number;
+  once: boolean;
+};
+
+/** Reads DATABASE_URL, DATABASE_SCHEMA and METADATA_WORKER_* variables; gateways come from the METADATA_* ones. */
+export const loadMetadataWorkerConfig = (env: Env = process.env): MetadataWorkerConfig => {
+  const databaseUrl = env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("Missing DATABASE_URL; the metadata worker needs the indexer's Postgres database.");
+  }
+
+  const concurrency = numberFrom(env, "METADATA_WORKER_CONCURRENCY", 8);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`METADATA_WORKER_CONCURRENCY must be a positive integer, got ${env.METADATA_WORKER_CONCURRENCY}`);
+  }
+
+  return {
+    databaseUrl,
+    databaseSchema: env.DATABASE_SCHEMA ?? "public",
+    ttlMs: numberFrom(env, "METADATA_WORKER_TTL_MS", 10 * 60_000),
+    retryMs: numberFrom(env, "METADATA_WORKER_RETRY_MS", 60_000),
+    batchSize: numberFrom(env, "METADATA_WORKER_BATCH", 100),
+    concurrency,
+    pollMs: numberFrom(env, "METADATA_WORKER_POLL_MS", 10_000),
+    once: env.METADATA_WORKER_ONCE === "true",
+  };
+};
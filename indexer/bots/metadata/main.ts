@@ -0,0 +1,61 @@
+// Fetches the metadata documents that indexed markets reference and stores them in offchain.metadata_documents, where
+// the API and GraphQL read them.
+//
+//   DATABASE_URL=postgres://... DATABASE_SCHEMA=public pnpm metadata
+//
+// DATABASE_SCHEMA is the schema Ponder indexes into. The worker creates the offchain schema on start and writes only
+// there, so it can run next to the indexer and survives reindexes. METADATA_WORKER_ONCE=true runs a single round and
+// exits non-zero when a document could not be fetched. Gateways are configured by METADATA_GATEWAY_DIR,
+// METADATA_IPFS_GATEWAYS, METADATA_TIMEOUT_MS and METADATA_MAX_BYTES; see config.ts for the METADATA_WORKER_* settings.
+import { drizzle } from "drizzle-orm/node-postgres";
+import pg from "pg";
+
+import { createMetadataResolver } from "../../src/metadata";
+import { openMetadataStore } from "../../src/metadata/store";
+import { sleep } from "../common/async";
+import { loadMetadataWorkerConfig } from "./config";
+import { createMetadataWorker } from "./worker";
+
+const config = loadMetadataWorkerConfig();
+const pool = new pg.Pool({ connectionString: config.databaseUrl });
+const store = openMetadataStore(drizzle(pool), { ponderSchema: config.databaseSchema });
+await store.create();
+
+const worker = createMetadataWorker({
+  store,
+  resolve: createMetadataResolver(),
+  ttlMs: config.ttlMs,
+  retryMs: config.retryMs,
+  batchSize: config.batchSize,
+  concurrency: config.concurrency,
+});
+
+console.log(`Fetching metadata documents recorded in schema ${config.databaseSchema}`);
+
+const controller = new AbortController();
+process.once("SIGINT", () => controller.abort());
+process.once("SIGTERM", () => controller.abort());
+
+let exitCode = 0;
+while (!controller.signal.aborted) {
+  const summary = await worker.runRound().catch((error: unknown) => {
+    console.error(`Round failed: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  });
+  if (summary) {
+    console.log(
+      Object.entries(summary)
+        .map(([status, count]) => `${status}=${count}`)
+        .join(" "),
+    );
+  }
+
+  if (config.once) {
+    exitCode = !summary || summary.unavailable > 0 ? 1 : 0;
+    break;
+  }
+  await sleep(config.pollMs, controller.signal);
+}
+
+await pool.end();
+process.exit(exitCode);
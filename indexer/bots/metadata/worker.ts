@@ -0,0 +1,40 @@
+import type { MetadataKind, MetadataStatus, ResolvedMetadata } from "../../src/metadata";
+import type { MetadataStore } from "../../src/metadata/store";
+
+export type RoundSummary = Record<MetadataStatus, number>;
+
+/** Fetches the recorded documents that are missing or stale and stores what they resolve to. */
+export const createMetadataWorker = ({
+  store,
+  resolve,
+  ttlMs,
+  retryMs,
+  batchSize,
+  concurrency,
+}: {
+  store: MetadataStore;
+  resolve: (uri: string, kind: MetadataKind) => Promise<ResolvedMetadata>;
+  ttlMs: number;
+  retryMs: number;
+  batchSize: number;
+  concurrency: number;
+}) => ({
+  runRound: async (): Promise<RoundSummary> => {
+    const summary: RoundSummary = { valid: 0, invalid: 0, unavailable: 0 };
+    const due = await store.listDue({ ttlMs, retryMs, limit: batchSize });
+
+    for (let i = 0; i < due.length; i += concurrency) {
+      await Promise.all(
+        due.slice(i, i + concurrency).map(async ({ uri, kind, status }) => {
+          const resolved = await resolve(uri, kind);
+          if (resolved.status === "unavailable") {
+            console.warn(`Could not fetch ${kind} document ${uri}: ${resolved.errors.join("; ")}`);
+          }
+          await store.save(uri, kind, resolved, status);
+          summary[resolved.status] += 1;
+        }),
+      );
+    }
+    return summary;
+  },
+});
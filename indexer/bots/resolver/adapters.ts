@@ -0,0 +1,170 @@
+import { validateAgainstSchema } from "../../src/metadata/schema";
+import type { JsonSchema } from "../../src/metadata/schema";
+import { expandUrl, fetchSource, readJsonPath } from "./oracle";
+import type { AdapterResult, FetchLimits, OracleAdapter, OracleSpec, SourceRecord } from "./oracle";
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Fetches the source and reads `path` from it; a fetch or parse failure leaves the market pending.
+const observe = async (
+  url: string,
+  path: string,
+  limits: FetchLimits,
+): Promise<{ source: SourceRecord; value: unknown } | { reason: string }> => {
+  let source: SourceRecord;
+  try {
+    source = await fetchSource(url, limits);
+  } catch (error) {
+    return { reason: errorMessage(error) };
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(source.body);
+  } catch {
+    return { reason: `${url} did not return JSON` };
+  }
+
+  const value = readJsonPath(document, path);
+  if (value === undefined || value === null) {
+    return { reason: `${path} is not set in ${url}` };
+  }
+  return { source: { ...source, path, value }, value };
+};
+
+const invalidSpec = (adapter: string, errors: string[]): AdapterResult => ({
+  status: "pending",
+  reason: `invalid ${adapter} oracle spec: ${errors.join("; ")}`,
+});
+
+export const httpJsonSpecSchema = {
+  type: "object",
+  required: ["adapter", "url", "path"],
+  properties: {
+    adapter: { type: "string" },
+    url: { type: "string", minLength: 1 },
+    path: { type: "string", minLength: 1 },
+    yes: { type: "array", items: { type: "string" } },
+    no: { type: "array", items: { type: "string" } },
+  },
+} as const satisfies JsonSchema;
+
+export type HttpJsonSpec = { adapter: "httpJson"; url: string; path: string; yes?: string[]; no?: string[] };
+
+/**
+ * Reads one value from a JSON endpoint and maps it to an outcome: `{ "adapter": "httpJson", "url": "...",
+ * "path": "$.result.winner", "yes": ["alice"], "no": ["bob"] }`. Values are compared as case-insensitive strings;
+ * `yes` and `no` default to true/yes and false/no. Any other value leaves the market pending.
+ */
+export const httpJsonAdapter = (limits: FetchLimits): OracleAdapter => ({
+  name: "httpJson",
+  supports: (spec) => spec.adapter === "httpJson",
+  resolve: async (raw, market) => {
+    const errors = validateAgainstSchema(httpJsonSpecSchema, raw);
+    if (errors.length > 0) return invalidSpec("httpJson", errors);
+    const spec = raw as OracleSpec & HttpJsonSpec;
+
+    const url = expandUrl(spec.url, market);
+    const observation = await observe(url, spec.path, limits);
+    if ("reason" in observation) return { status: "pending", reason: observation.reason };
+
+    const normalized = String(observation.value).trim().toLowerCase();
+    const matches = (values: string[]) => values.some((value) => value.trim().toLowerCase() === normalized);
+    const outcome = matches(spec.yes ?? ["true", "yes"]) ? "Yes" : matches(spec.no ?? ["false", "no"]) ? "No" : null;
+    if (!outcome) {
+      return {
+        status: "pending",
+        reason: `${spec.path} is ${JSON.stringify(observation.value)}, not a listed outcome`,
+      };
+    }
+
+    return {
+      status: "resolved",
+      outcome,
+      summary: `${spec.path} at ${url} was ${JSON.stringify(observation.value)}`,
+      sources: [observation.source],
+    };
+  },
+});
+
+export const priceThresholdSpecSchema = {
+  type: "object",
+  required: ["adapter", "url", "path", "threshold", "comparison"],
+  properties: {
+    adapter: { type: "string" },
+    url: { type: "string", minLength: 1 },
+    path: { type: "string", minLength: 1 },
+    threshold: { type: "string", minLength: 1 },
+    comparison: { type: "string" },
+  },
+} as const satisfies JsonSchema;
+
+const COMPARISONS = {
+  gt: (order: number) => order > 0,
+  gte: (order: number) => order >= 0,
+  lt: (order: number) => order < 0,
+  lte: (order: number) => order <= 0,
+} as const;
+
+export type PriceThresholdSpec = {
+  adapter: "priceThreshold";
+  url: string;
+  path: string;
+  threshold: string;
+  comparison: keyof typeof COMPARISONS;
+};
+
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+// Exact decimal comparison; prices arrive as JSON numbers or strings and must not pick up float rounding.
+const compareDecimals = (left: string, right: string): number => {
+  const scale = Math.max(left.split(".")[1]?.length ?? 0, right.split(".")[1]?.length ?? 0);
+  const toScaled = (value: string) => {
+    const [whole, fraction = ""] = value.split(".");
+    return BigInt(`${whole}${fraction.padEnd(scale, "0")}`);
+  };
+  const difference = toScaled(left) - toScaled(right);
+  return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+};
+
+/**
+ * Resolves Yes when the observed price satisfies `comparison` against `threshold`, No otherwise:
+ * `{ "adapter": "priceThreshold", "url": "https://.../price?at={closeEpoch}", "path": "$.price",
+ * "threshold": "4000", "comparison": "gte" }`.
+ */
+export const priceThresholdAdapter = (limits: FetchLimits): OracleAdapter => ({
+  name: "priceThreshold",
+  supports: (spec) => spec.adapter === "priceThreshold",
+  resolve: async (raw, market) => {
+    const errors = validateAgainstSchema(priceThresholdSpecSchema, raw);
+    const spec = raw as OracleSpec & PriceThresholdSpec;
+    if (errors.length === 0 && !(spec.comparison in COMPARISONS)) {
+      errors.push(`$.comparison must be one of ${Object.keys(COMPARISONS).join(", ")}`);
+    }
+    if (errors.length === 0 && !DECIMAL.test(spec.threshold)) {
+      errors.push("$.threshold must be a decimal number");
+    }
+    if (errors.length > 0) return invalidSpec("priceThreshold", errors);
+
+    const url = expandUrl(spec.url, market);
+    const observation = await observe(url, spec.path, limits);
+    if ("reason" in observation) return { status: "pending", reason: observation.reason };
+
+    const price = String(observation.value).trim();
+    if (!DECIMAL.test(price)) {
+      return {
+        status: "pending",
+        reason: `${spec.path} at ${url} is ${JSON.stringify(observation.value)}, not a price`,
+      };
+    }
+
+    const holds = COMPARISONS[spec.comparison](compareDecimals(price, spec.threshold));
+    return {
+      status: "resolved",
+      outcome: holds ? "Yes" : "No",
+      summary: `${spec.path} at ${url} was ${price}; ${price} ${spec.comparison} ${spec.threshold} is ${holds}`,
+      sources: [observation.source],
+      details: { price, threshold: spec.threshold, comparison: spec.comparison },
+    };
+  },
+});
@@ -0,0 +1,178 @@
+import type { Account, Address, Chain, PublicClient, Transport, WalletClient } from "viem";
+import { predictionMarketAbi } from "@infinite-markets/sdk";
+
+import type { ResolvedMetadata } from "../../src/metadata";
+import type { DocumentPublisher } from "../../src/metadata/publishing";
+import { chainTime } from "../common/chain";
+import type { IndexerClient } from "../common/indexer";
+import { buildEvidenceDocument, buildResolutionDocument } from "./evidence";
+import type { ApprovalQueue } from "./manual";
+import type { OracleAdapter, OracleSpec, ResolvableMarket, StrictOutcome } from "./oracle";
+
+const OUTCOME_INDEX: Record<StrictOutcome, number> = { Yes: 1, No: 2 };
+const ACTIVE_STATUS = 1;
+const DISCOVERY_LIMIT = "100";
+
+type ClosedMarket = {
+  marketId: string;
+  chainId: number;
+  contract: string;
+  questionUri: string;
+  oracleUri: string;
+  closeEpoch: string;
+};
+
+export type ResolutionAgent = {
+  /** Resolves every indexed Active market past its closeEpoch whose adapter can decide it now. */
+  runRound(): Promise<void>;
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Picks Active markets past closeEpoch from the indexer, reads each market's oracle document (the JSON at its
+ * `oracleUri`) and hands it to the adapter named by its `adapter` field. Documents that cannot be read, or that name
+ * no known adapter, go to the manual-approval queue. A decided market gets an evidence document and a resolution
+ * document, both pinned, and is resolved with their URIs.
+ */
+export const createResolutionAgent = ({
+  publicClient,
+  walletClient,
+  contract,
+  chainId,
+  indexer,
+  loadOracleDocument,
+  adapters,
+  manual,
+  queue,
+  publisher,
+  dryRun,
+  log = console.log,
+}: {
+  publicClient: PublicClient;
+  /** Signs as the contract's resolutionAgent; may be null for dry runs. */
+  walletClient: WalletClient<Transport, Chain | undefined, Account> | null;
+  contract: Address;
+  chainId: number;
+  indexer: IndexerClient;
+  loadOracleDocument: (uri: string) => Promise<ResolvedMetadata>;
+  adapters: OracleAdapter[];
+  manual: OracleAdapter;
+  queue: ApprovalQueue;
+  publisher: DocumentPublisher;
+  dryRun: boolean;
+  log?: (message: string) => void;
+}): ResolutionAgent => {
+  const loadSpec = async (market: ResolvableMarket): Promise<OracleSpec> => {
+    const metadata = await loadOracleDocument(market.oracleUri);
+    const document = metadata.document as Record<string, unknown> | null;
+    if (metadata.status === "unavailable") {
+      return { adapter: "manual", reason: `oracle document unavailable: ${metadata.errors.join("; ")}` };
+    }
+    if (!document || typeof document !== "object" || typeof document.adapter !== "string") {
+      return { adapter: "manual", reason: "oracle document names no adapter" };
+    }
+    return document as OracleSpec;
+  };
+
+  const submit = async (
+    market: ResolvableMarket,
+    outcome: StrictOutcome,
+    resolutionUri: string,
+    evidenceUri: string,
+  ) => {
+    if (!walletClient) {
+      throw new Error("A resolution agent key is required to submit resolutions.");
+    }
+
+    const { request } = await publicClient.simulateContract({
+      account: walletClient.account,
+      address: contract,
+      abi: predictionMarketAbi,
+      functionName: "resolveMarket",
+      // resolvedAt 0 lets the contract use the block timestamp, so the dispute window starts when the outcome lands.
+      args: [
+        BigInt(market.marketId),
+        { outcome: OUTCOME_INDEX[outcome], resolutionURI: resolutionUri, evidenceURI: evidenceUri, resolvedAt: 0n },
+      ],
+    });
+    const hash = await walletClient.writeContract({ ...request, chain: null });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return hash;
+  };
+
+  const resolveMarket = async (market: ResolvableMarket) => {
+    // The indexer may lag a resolution this agent (or anyone) already submitted.
+    const onchain = await publicClient.readContract({
+      address: contract,
+      abi: predictionMarketAbi,
+      functionName: "getMarket",
+      args: [BigInt(market.marketId)],
+    });
+    if (onchain.status !== ACTIVE_STATUS) return;
+
+    const loaded = await loadSpec(market);
+    const supported = [...adapters, manual].find((candidate) => candidate.supports(loaded));
+    const adapter = supported ?? manual;
+    const spec = supported ? loaded : { ...loaded, reason: `no adapter named ${loaded.adapter}` };
+
+    const result = await adapter.resolve(spec, market);
+    if (result.status === "pending") {
+      log(`market ${market.key}: ${adapter.name} pending: ${result.reason}`);
+      return;
+    }
+
+    const evidence = buildEvidenceDocument(market, spec, adapter.name, result);
+    if (dryRun) {
+      log(`market ${market.key}: [dry-run] would resolve ${result.outcome} (${result.summary})`);
+      log(evidence);
+      return;
+    }
+
+    const evidenceUri = await publisher.publish(evidence);
+    const resolver = walletClient?.account.address ?? "unknown";
+    const resolutionUri = await publisher.publish(
+      buildResolutionDocument(market, adapter.name, result, evidenceUri, resolver),
+    );
+    log(`market ${market.key}: pinned evidence ${evidenceUri} and resolution ${resolutionUri}`);
+
+    const hash = await submit(market, result.outcome, resolutionUri, evidenceUri);
+    if (adapter === manual) queue.markResolved(market.key, hash);
+    log(`market ${market.key}: resolved ${result.outcome} in ${hash} (${result.summary})`);
+  };
+
+  return {
+    runRound: async () => {
+      const now = await chainTime(publicClient);
+      const { markets } = await indexer.get<{ markets: ClosedMarket[] }>("/markets", {
+        status: "Active",
+        closesBefore: now.toString(),
+        sort: "closeEpoch",
+        order: "asc",
+        limit: DISCOVERY_LIMIT,
+      });
+
+      for (const closed of markets) {
+        if (closed.chainId !== chainId || closed.contract.toLowerCase() !== contract.toLowerCase()) continue;
+        const market: ResolvableMarket = {
+          key: `${closed.chainId}:${closed.contract.toLowerCase()}:${closed.marketId}`,
+          chainId: closed.chainId,
+          contract: closed.contract.toLowerCase(),
+          marketId: closed.marketId,
+          questionUri: closed.questionUri,
+          oracleUri: closed.oracleUri,
+          closeEpoch: closed.closeEpoch,
+        };
+
+        try {
+          await resolveMarket(market);
+        } catch (error) {
+          log(`market ${market.key}: resolution failed: ${errorMessage(error)}`);
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,53 @@
+// Runs the adapter for one oracle spec and prints its decision as JSON, without pinning or submitting anything.
+//
+//   pnpm exec tsx bots/resolver/check.ts oracle.json [marketId] [closeEpoch]
+//
+// Used to try a spec before putting it on-chain and by scripts/resolver/run.sh against local fixture servers. Manual
+// specs use the queue in RESOLVER_QUEUE_DIR.
+import { readFileSync } from "node:fs";
+
+import { httpJsonAdapter, priceThresholdAdapter } from "./adapters";
+import { manualAdapter, openApprovalQueue } from "./manual";
+import type { OracleSpec, ResolvableMarket } from "./oracle";
+
+const [specPath, marketId = "1", closeEpoch = Math.floor(Date.now() / 1000).toString()] = process.argv.slice(2);
+if (!specPath) {
+  console.error("Usage: check.ts <oracle-spec.json> [marketId] [closeEpoch]");
+  process.exit(1);
+}
+
+const spec = JSON.parse(readFileSync(specPath, "utf8")) as OracleSpec;
+const limits = { timeoutMs: 5_000, maxBytes: 256 * 1024 };
+const adapters = [
+  httpJsonAdapter(limits),
+  priceThresholdAdapter(limits),
+  manualAdapter(openApprovalQueue(process.env.RESOLVER_QUEUE_DIR ?? ".resolver/queue")),
+];
+const adapter = adapters.find((candidate) => candidate.supports(spec));
+if (!adapter) {
+  console.error(`No adapter named ${spec.adapter}`);
+  process.exit(1);
+}
+
+const market: ResolvableMarket = {
+  key: `0:check:${marketId}`,
+  chainId: 0,
+  contract: "check",
+  marketId,
+  questionUri: "",
+  oracleUri: specPath,
+  closeEpoch,
+};
+
+const result = await adapter.resolve(spec, market);
+console.log(
+  JSON.stringify(
+    result.status === "resolved"
+      ? {
+          adapter: adapter.name,
+          ...result,
+          sources: result.sources.map(({ url, sha256, path, value }) => ({ url, sha256, path, value })),
+        }
+      : { adapter: adapter.name, ...result },
+  ),
+);
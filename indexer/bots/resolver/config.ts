@@ -0,0 +1,68 @@
+import { isAddress, isHex } from "viem";
+
+import { numberFrom } from "../common/env";
+import type { Env } from "../common/env";
+
+export type ResolverConfig = {
+  apiUrl: string;
+  deployment?: string;
+  rpcUrl: string;
+  contract: string;
+  /** Key of the contract's resolutionAgent; only dry runs may omit it. */
+  privateKey?: string;
+  /** Kubo RPC API used to pin evidence, e.g. http://localhost:5001. */
+  pinApiUrl?: string;
+  /** Directory evidence is written to instead, laid out for the indexer's METADATA_GATEWAY_DIR. */
+  pinDirectory?: string;
+  queueDirectory: string;
+  /** Limits for adapter requests; oracle documents themselves are fetched with the METADATA_* gateway settings. */
+  fetchTimeoutMs: number;
+  fetchMaxBytes: number;
+  pollMs: number;
+  once: boolean;
+  dryRun: boolean;
+};
+
+/** Reads RESOLVER_* variables. Exactly one of RESOLVER_PIN_API_URL and RESOLVER_PIN_DIR picks where evidence goes. */
+export const loadResolverConfig = (env: Env = process.env): ResolverConfig => {
+  const rpcUrl = env.RESOLVER_RPC_URL ?? env.PONDER_RPC_URL;
+  if (!rpcUrl) {
+    throw new Error("Missing RESOLVER_RPC_URL.");
+  }
+
+  const contract = env.RESOLVER_CONTRACT ?? env.PREDICTION_MARKET_ADDRESS;
+  if (!contract || !isAddress(contract)) {
+    throw new Error(`RESOLVER_CONTRACT must be the PredictionMarket address, got ${contract}`);
+  }
+
+  const dryRun = env.RESOLVER_DRY_RUN === "true";
+  const privateKey = env.RESOLVER_PRIVATE_KEY;
+  if (!dryRun && !privateKey) {
+    throw new Error("RESOLVER_PRIVATE_KEY is required unless RESOLVER_DRY_RUN=true.");
+  }
+  if (privateKey !== undefined && !isHex(privateKey)) {
+    throw new Error("RESOLVER_PRIVATE_KEY must be 0x-prefixed hex.");
+  }
+
+  const pinApiUrl = env.RESOLVER_PIN_API_URL;
+  const pinDirectory = env.RESOLVER_PIN_DIR;
+  if (!dryRun && Boolean(pinApiUrl) === Boolean(pinDirectory)) {
+    throw new Error("Set exactly one of RESOLVER_PIN_API_URL and RESOLVER_PIN_DIR.");
+  }
+
+  return {
+    apiUrl: env.RESOLVER_API_URL ?? "http://localhost:42069",
+    deployment: env.RESOLVER_DEPLOYMENT,
+    rpcUrl,
+    contract,
+    privateKey,
+    pinApiUrl,
+    pinDirectory,
+    queueDirectory: env.RESOLVER_QUEUE_DIR ?? ".resolver/queue",
+    fetchTimeoutMs: numberFrom(env, "RESOLVER_FETCH_TIMEOUT_MS", 5_000),
+    fetchMaxBytes: numberFrom(env, "RESOLVER_FETCH_MAX_BYTES", 256 * 1024),
+    pollMs: numberFrom(env, "RESOLVER_POLL_MS", 30_000),
+    once: env.RESOLVER_ONCE === "true",
+    dryRun,
+  };
+};
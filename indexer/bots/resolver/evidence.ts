@@ -0,0 +1,53 @@
+import type { AdapterResult, OracleSpec, ResolvableMarket } from "./oracle";
+
+type Resolved = Extract<AdapterResult, { status: "resolved" }>;
+
+const marketReference = (market: ResolvableMarket) => ({
+  chainId: market.chainId,
+  contract: market.contract,
+  marketId: market.marketId,
+  questionUri: market.questionUri,
+  oracleUri: market.oracleUri,
+  closeEpoch: market.closeEpoch,
+});
+
+// The evidence document (evidenceURI) carries every fetched source verbatim with its hash; the resolution document
+// (resolutionURI) states the outcome and how it was reached, and points back at the evidence.
+export const buildEvidenceDocument = (market: ResolvableMarket, spec: OracleSpec, adapter: string, result: Resolved) =>
+  JSON.stringify(
+    {
+      type: "prediction-market/evidence",
+      version: 1,
+      market: marketReference(market),
+      adapter,
+      spec,
+      capturedAt: Math.floor(Date.now() / 1000).toString(),
+      sources: result.sources,
+      details: result.details ?? null,
+    },
+    null,
+    2,
+  );
+
+export const buildResolutionDocument = (
+  market: ResolvableMarket,
+  adapter: string,
+  result: Resolved,
+  evidenceUri: string,
+  resolver: string,
+) =>
+  JSON.stringify(
+    {
+      type: "prediction-market/resolution",
+      version: 1,
+      market: marketReference(market),
+      outcome: result.outcome,
+      adapter,
+      summary: result.summary,
+      evidenceUri,
+      resolver,
+      createdAt: Math.floor(Date.now() / 1000).toString(),
+    },
+    null,
+    2,
+  );
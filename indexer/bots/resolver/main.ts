@@ -0,0 +1,60 @@
+// Resolves markets past closeEpoch through the oracle adapter named in each market's oracle document.
+//
+//   RESOLVER_RPC_URL=http://localhost:8545 RESOLVER_CONTRACT=0x... RESOLVER_PRIVATE_KEY=0x... \
+//     RESOLVER_PIN_API_URL=http://localhost:5001 pnpm resolver
+//
+// RESOLVER_PIN_DIR=<dir> writes evidence to disk instead of IPFS; point the indexer's METADATA_GATEWAY_DIR at the
+// same directory to index it. Markets that need a human are listed and approved with `pnpm resolver:queue`.
+// RESOLVER_DRY_RUN=true logs the outcome and evidence document of each decided market without pinning or
+// submitting. See config.ts for the remaining RESOLVER_* settings.
+import type { Address } from "viem";
+
+import { createMetadataResolver } from "../../src/metadata";
+import { createGatewaysFromEnv } from "../../src/metadata/gateways";
+import { directoryPublisher, ipfsApiPublisher } from "../../src/metadata/publishing";
+import { sleep } from "../common/async";
+import { createChainClients } from "../common/chain";
+import { createIndexerClient } from "../common/indexer";
+import { httpJsonAdapter, priceThresholdAdapter } from "./adapters";
+import { createResolutionAgent } from "./agent";
+import { loadResolverConfig } from "./config";
+import { manualAdapter, openApprovalQueue } from "./manual";
+
+const config = loadResolverConfig();
+const clients = createChainClients({ rpcUrl: config.rpcUrl, contract: config.contract, privateKey: config.privateKey });
+const limits = { timeoutMs: config.fetchTimeoutMs, maxBytes: config.fetchMaxBytes };
+const queue = openApprovalQueue(config.queueDirectory);
+const resolveMetadata = createMetadataResolver(createGatewaysFromEnv());
+
+const agent = createResolutionAgent({
+  publicClient: clients.publicClient,
+  walletClient: clients.walletClient,
+  contract: clients.contract as Address,
+  chainId: await clients.publicClient.getChainId(),
+  indexer: createIndexerClient({ apiUrl: config.apiUrl, deployment: config.deployment }),
+  loadOracleDocument: (uri) => resolveMetadata(uri, "oracle"),
+  adapters: [httpJsonAdapter(limits), priceThresholdAdapter(limits)],
+  manual: manualAdapter(queue),
+  queue,
+  publisher: config.pinApiUrl
+    ? ipfsApiPublisher(config.pinApiUrl, config.fetchTimeoutMs)
+    : directoryPublisher(config.pinDirectory ?? ".resolver/evidence"),
+  dryRun: config.dryRun,
+});
+
+console.log(
+  `Resolving markets of ${clients.contract} as ${clients.walletClient?.account.address ?? "nobody (dry run)"}`,
+);
+
+const controller = new AbortController();
+process.once("SIGINT", () => controller.abort());
+process.once("SIGTERM", () => controller.abort());
+
+while (!controller.signal.aborted) {
+  await agent.runRound().catch((error: unknown) => {
+    console.error(`Round failed: ${error instanceof Error ? error.message : String(error)}`);
+  });
+  if (config.once) break;
+  await sleep(config.pollMs, controller.signal);
+}
+process.exit(0);
@@ -0,0 +1,105 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import type { OracleAdapter, ResolvableMarket, StrictOutcome } from "./oracle";
+
+export type ApprovalEntry = {
+  key: string;
+  market: ResolvableMarket;
+  /** Why the market needs a human: the oracle spec asked for it, or no adapter could read the oracle document. */
+  reason: string;
+  queuedAt: string;
+  status: "pending" | "approved" | "resolved";
+  outcome?: StrictOutcome;
+  note?: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  transactionHash?: string;
+};
+
+export type ApprovalQueue = {
+  list(): ApprovalEntry[];
+  get(key: string): ApprovalEntry | null;
+  /** Adds the market as pending unless it is already queued. */
+  enqueue(market: ResolvableMarket, reason: string): ApprovalEntry;
+  approve(key: string, approval: { outcome: StrictOutcome; note?: string; approvedBy: string }): ApprovalEntry;
+  markResolved(key: string, transactionHash: string): void;
+};
+
+const now = () => Math.floor(Date.now() / 1000).toString();
+
+// One JSON file per market, replaced atomically, so the agent and an operator approving from the CLI only contend
+// when they touch the same market at the same moment.
+export const openApprovalQueue = (directory: string): ApprovalQueue => {
+  mkdirSync(directory, { recursive: true });
+  const fileFor = (key: string) => path.join(directory, `${key.replaceAll(":", "-")}.json`);
+
+  const read = (key: string): ApprovalEntry | null => {
+    const file = fileFor(key);
+    return existsSync(file) ? (JSON.parse(readFileSync(file, "utf8")) as ApprovalEntry) : null;
+  };
+
+  const write = (entry: ApprovalEntry) => {
+    const file = fileFor(entry.key);
+    writeFileSync(`${file}.tmp`, `${JSON.stringify(entry, null, 2)}\n`);
+    renameSync(`${file}.tmp`, file);
+    return entry;
+  };
+
+  const existing = (key: string) => {
+    const entry = read(key);
+    if (!entry) throw new Error(`Market ${key} is not in the approval queue.`);
+    return entry;
+  };
+
+  return {
+    list: () =>
+      readdirSync(directory)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => JSON.parse(readFileSync(path.join(directory, file), "utf8")) as ApprovalEntry)
+        .sort((a, b) => Number(a.queuedAt) - Number(b.queuedAt)),
+
+    get: read,
+
+    enqueue: (market, reason) =>
+      read(market.key) ?? write({ key: market.key, market, reason, queuedAt: now(), status: "pending" }),
+
+    approve: (key, { outcome, note, approvedBy }) => {
+      const entry = existing(key);
+      if (entry.status === "resolved") {
+        throw new Error(`Market ${key} was already resolved in ${entry.transactionHash}.`);
+      }
+      return write({ ...entry, status: "approved", outcome, note, approvedBy, approvedAt: now() });
+    },
+
+    markResolved: (key, transactionHash) => {
+      write({ ...existing(key), status: "resolved", transactionHash });
+    },
+  };
+};
+
+/**
+ * Holds markets until an operator approves an outcome with `pnpm resolver:queue approve`; the approval itself is the
+ * evidence. Used for `{ "adapter": "manual" }` specs and as the fallback when no adapter can read the oracle document.
+ */
+export const manualAdapter = (queue: ApprovalQueue): OracleAdapter => ({
+  name: "manual",
+  supports: (spec) => spec.adapter === "manual",
+  resolve: async (spec, market) => {
+    const entry = queue.enqueue(
+      market,
+      typeof spec.reason === "string" ? spec.reason : "oracle spec requires approval",
+    );
+    if (entry.status !== "approved" || !entry.outcome) {
+      return { status: "pending", reason: `awaiting manual approval of ${market.key}` };
+    }
+
+    return {
+      status: "resolved",
+      outcome: entry.outcome,
+      summary: `approved as ${entry.outcome} by ${entry.approvedBy}${entry.note ? `: ${entry.note}` : ""}`,
+      sources: [],
+      details: { approvedBy: entry.approvedBy, approvedAt: entry.approvedAt, note: entry.note ?? null },
+    };
+  },
+});
@@ -0,0 +1,74 @@
+import { createHash } from "node:crypto";
+
+import { fetchWithLimits } from "../../src/metadata/gateways";
+
+export type StrictOutcome = "Yes" | "No";
+
+/** The market fields adapters may use, e.g. to pick the observation time. */
+export type ResolvableMarket = {
+  /** `${chainId}:${contract}:${marketId}`, matching the indexer's scoped ids. */
+  key: string;
+  chainId: number;
+  contract: string;
+  marketId: string;
+  questionUri: string;
+  oracleUri: string;
+  closeEpoch: string;
+};
+
+/** The JSON document a market's `oracleUri` points at; `adapter` picks the adapter that reads the remaining fields. */
+export type OracleSpec = { adapter: string } & Record<string, unknown>;
+
+/** One piece of fetched evidence, kept verbatim so the evidence document can be checked against its hash. */
+export type SourceRecord = {
+  url: string;
+  fetchedAt: string;
+  contentType: string | null;
+  sha256: string;
+  body: string;
+  /** The JSON path read from `body` and the value found there, when the adapter read one. */
+  path?: string;
+  value?: unknown;
+};
+
+export type AdapterResult =
+  | { status: "resolved"; outcome: StrictOutcome; summary: string; sources: SourceRecord[]; details?: unknown }
+  // Not decidable yet (source not updated, unreachable, awaiting approval); the market is retried next round.
+  | { status: "pending"; reason: string };
+
+export interface OracleAdapter {
+  readonly name: string;
+  supports(spec: OracleSpec): boolean;
+  resolve(spec: OracleSpec, market: ResolvableMarket): Promise<AdapterResult>;
+}
+
+export type FetchLimits = { timeoutMs: number; maxBytes: number };
+
+export const fetchSource = async (url: string, limits: FetchLimits): Promise<SourceRecord> => {
+  const fetched = await fetchWithLimits(url, limits);
+  return {
+    url,
+    fetchedAt: Math.floor(Date.now() / 1000).toString(),
+    contentType: fetched.contentType,
+    sha256: createHash("sha256").update(fetched.body).digest("hex"),
+    body: fetched.body,
+  };
+};
+
+// Supports the dotted subset of JSONPath: `$.data.items[0].price`, `data.items.0.price`.
+export const readJsonPath = (document: unknown, path: string): unknown => {
+  const segments = path.replace(/^\$\.?/, "").match(/[^.[\]]+/g) ?? [];
+  let current = document;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+};
+
+// `{marketId}` and `{closeEpoch}` in a source URL are replaced per market, so one spec can serve a series of markets
+// and ask the source for its value at close.
+export const expandUrl = (template: string, market: Pick<ResolvableMarket, "marketId" | "closeEpoch">) =>
+  template
+    .replaceAll("{marketId}", encodeURIComponent(market.marketId))
+    .replaceAll("{closeEpoch}", encodeURIComponent(market.closeEpoch));
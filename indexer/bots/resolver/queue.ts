@@ -0,0 +1,36 @@
+// Lists and approves markets waiting in the resolver's manual-approval queue.
+//
+//   pnpm resolver:queue                                    # pending and approved markets
+//   pnpm resolver:queue approve 31337:0xabc...:4 Yes "Announced on the official results page"
+//
+// The resolver picks approvals up on its next round. RESOLVER_QUEUE_DIR must match the resolver's; the approver is
+// recorded as RESOLVER_APPROVER or the OS user.
+import { userInfo } from "node:os";
+
+import { openApprovalQueue } from "./manual";
+
+const queue = openApprovalQueue(process.env.RESOLVER_QUEUE_DIR ?? ".resolver/queue");
+const [command = "list", key, outcome, ...note] = process.argv.slice(2);
+
+if (command === "list") {
+  const entries = queue.list().filter((entry) => entry.status !== "resolved");
+  if (entries.length === 0) console.log("The approval queue is empty.");
+  for (const entry of entries) {
+    const decision = entry.status === "approved" ? ` -> ${entry.outcome} by ${entry.approvedBy}` : "";
+    console.log(`${entry.key} [${entry.status}${decision}] ${entry.market.questionUri}\n  ${entry.reason}`);
+  }
+} else if (command === "approve") {
+  if (!key || (outcome !== "Yes" && outcome !== "No")) {
+    console.error("Usage: resolver:queue approve <chainId:contract:marketId> <Yes|No> [note]");
+    process.exit(1);
+  }
+  const entry = queue.approve(key, {
+    outcome,
+    note: note.length > 0 ? note.join(" ") : undefined,
+    approvedBy: process.env.RESOLVER_APPROVER ?? userInfo().username,
+  });
+  console.log(`Approved ${entry.key} as ${entry.outcome}`);
+} else {
+  console.error(`Unknown command ${command}; use list or approve.`);
+  process.exit(1);
+}
@@ -0,0 +1,124 @@
+import { isAddress } from "viem";
+import type { Address } from "viem";
+
+export type Deployment = {
+  /** Selector used by the API, e.g. `base` or `mainnet-staging`. */
+  name: string;
+  /** Ponder chain name; deployments on the same chain share it. */
+  chain: string;
+  chainId: number;
+  address: Address;
+  startBlock: number;
+  rpc: string;
+};
+
+const parseInteger = (label: string, value: unknown, fallback?: number): number => {
+  if (value === undefined && fallback !== undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${label}: ${String(value)}`);
+  }
+  return parsed;
+};
+
+const fromList = (raw: string): Deployment[] => {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    throw new Error("PREDICTION_MARKET_DEPLOYMENTS must be a JSON array.");
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("PREDICTION_MARKET_DEPLOYMENTS must be a non-empty JSON array.");
+  }
+
+  return entries.map((entry: Record<string, unknown>, index) => {
+    const chainId = parseInteger(`chainId of deployment ${index}`, entry.chainId);
+    const address = String(entry.address ?? "");
+    if (!isAddress(address)) {
+      throw new Error(`Invalid address of deployment ${index}: ${address}`);
+    }
+    const rpc = typeof entry.rpc === "string" ? entry.rpc : "";
+    if (!rpc) {
+      throw new Error(`Missing rpc for deployment ${index}.`);
+    }
+    const chain = typeof entry.chain === "string" && entry.chain ? entry.chain : `chain${chainId}`;
+
+    return {
+      name: typeof entry.name === "string" && entry.name ? entry.name : chain,
+      chain,
+      chainId,
+      address: address.toLowerCase() as Address,
+      startBlock: parseInteger(`startBlock of deployment ${index}`, entry.startBlock, 0),
+      rpc,
+    };
+  });
+};
+
+// The single-deployment variables predate PREDICTION_MARKET_DEPLOYMENTS and are still honoured on their own.
+const fromLegacyEnv = (): Deployment[] => {
+  const rpc = process.env.PONDER_RPC_URL ?? process.env.PONDER_RPC_URL_1 ?? process.env.PONDER_RPC_URL_8453;
+  if (!rpc) {
+    throw new Error("Missing RPC URL. Set PONDER_RPC_URL (or *_1 / *_8453) in the environment.");
+  }
+
+  const address = process.env.PREDICTION_MARKET_ADDRESS;
+  if (!address) {
+    throw new Error("Missing PREDICTION_MARKET_ADDRESS environment variable.");
+  }
+  if (!isAddress(address)) {
+    throw new Error(`Invalid PREDICTION_MARKET_ADDRESS: ${address}`);
+  }
+
+  const chain = process.env.PONDER_CHAIN_NAME ?? "mainnet";
+  return [
+    {
+      name: chain,
+      chain,
+      chainId: parseInteger(
+        "chain id",
+        process.env.PREDICTION_MARKET_CHAIN_ID ?? process.env.PONDER_CHAIN_ID ?? "1",
+      ),
+      address: address.toLowerCase() as Address,
+      startBlock: parseInteger("start block", process.env.PREDICTION_MARKET_START_BLOCK ?? "0"),
+      rpc,
+    },
+  ];
+};
+
+const validate = (deployments: Deployment[]): Deployment[] => {
+  const names = new Set<string>();
+  const chains = new Map<string, Deployment>();
+
+  for (const deployment of deployments) {
+    if (names.has(deployment.name)) {
+      throw new Error(`Duplicate deployment name: ${deployment.name}`);
+    }
+    names.add(deployment.name);
+
+    const sibling = chains.get(deployment.chain);
+    if (sibling && (sibling.chainId !== deployment.chainId || sibling.rpc !== deployment.rpc)) {
+      throw new Error(`Deployments on chain ${deployment.chain} must share the same chainId and rpc.`);
+    }
+    chains.set(deployment.chain, deployment);
+
+    if (
+      deployments.some(
+        (other) => other !== deployment && other.chainId === deployment.chainId && other.address === deployment.address,
+      )
+    ) {
+      throw new Error(`Contract ${deployment.address} is listed twice on chain ${deployment.chainId}.`);
+    }
+  }
+
+  return deployments;
+};
+
+/**
+ * Deployments to index, from PREDICTION_MARKET_DEPLOYMENTS, a JSON array of
+ * `{ name?, chain?, chainId, address, startBlock?, rpc }`, or from the single-deployment variables.
+ */
+export const loadDeployments = (): Deployment[] => {
+  const raw = process.env.PREDICTION_MARKET_DEPLOYMENTS;
+  return validate(raw ? fromList(raw) : fromLegacyEnv());
+};
@@ -3,45 +3,39 @@ import { createConfig } from "ponder";
 import type { Address } from "viem";
 
 import { PredictionMarketAbi } from "./abis/PredictionMarketAbi";
-
-const rpcUrl =
-  process.env.PONDER_RPC_URL ?? process.env.PONDER_RPC_URL_1 ?? process.env.PONDER_RPC_URL_8453;
-if (!rpcUrl) {
-  throw new Error("Missing RPC URL. Set PONDER_RPC_URL (or *_1 / *_8453) in the environment.");
-}
-
-const contractAddress = process.env.PREDICTION_MARKET_ADDRESS as Address | undefined;
-if (!contractAddress) {
-  throw new Error("Missing PREDICTION_MARKET_ADDRESS environment variable.");
-}
-
-const chainIdEnv = process.env.PREDICTION_MARKET_CHAIN_ID ?? process.env.PONDER_CHAIN_ID ?? "1";
-const chainId = Number(chainIdEnv);
-if (!Number.isInteger(chainId)) {
-  throw new Error(`Invalid chain id: ${chainIdEnv}`);
-}
-
-const startBlockEnv = process.env.PREDICTION_MARKET_START_BLOCK ?? "0";
-const startBlock = Number(startBlockEnv);
-if (!Number.isInteger(startBlock) || startBlock < 0) {
-  throw new Error(`Invalid start block: ${startBlockEnv}`);
+import { loadDeployments } from "./deployments";
+
+const deployments = loadDeployments();
+
+const chains: Record<string, { id: number; rpc: string }> = {};
+const contractChains: Record<string, { address: Address[]; startBlock: number }> = {};
+const headChains: Record<string, { startBlock: "latest"; interval: number }> = {};
+
+// Ponder filters one contract per chain, so deployments sharing a chain are indexed from the earliest start block.
+for (const deployment of deployments) {
+  chains[deployment.chain] = { id: deployment.chainId, rpc: deployment.rpc };
+  headChains[deployment.chain] = { startBlock: "latest", interval: 1 };
+
+  const existing = contractChains[deployment.chain];
+  if (existing) {
+    existing.address.push(deployment.address);
+    existing.startBlock = Math.min(existing.startBlock, deployment.startBlock);
+  } else {
+    contractChains[deployment.chain] = { address: [deployment.address], startBlock: deployment.startBlock };
+  }
 }
 
-const chainName = process.env.PONDER_CHAIN_NAME ?? "mainnet";
-
 export default createConfig({
-  chains: {
-    [chainName]: {
-      id: chainId,
-      rpc: rpcUrl,
-    },
-  },
+  chains,
   contracts: {
     PredictionMarket: {
-      chain: chainName,
       abi: PredictionMarketAbi,
-      address: contractAddress,
-      startBlock,
+      chain: contractChains,
+    },
+  },
+  blocks: {
+    ChainHead: {
+      chain: headChains,
     },
   },
 });
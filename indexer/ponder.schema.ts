@@ -1,105 +1,338 @@
-import { onchainTable } from "ponder";
+import { index, onchainTable, relations } from "ponder";
 
-export const markets = onchainTable("markets", (t) => ({
-  id: t.text().primaryKey(),
-  status: t.text().notNull(),
-  outcome: t.text().notNull(),
-  openEpoch: t.bigint().notNull(),
-  closeEpoch: t.bigint().notNull(),
-  feeBps: t.bigint().notNull(),
-  questionUri: t.text().notNull(),
-  oracleUri: t.text().notNull(),
-  resolutionUri: t.text(),
-  evidenceUri: t.text(),
-  creator: t.hex().notNull(),
-  resolver: t.hex(),
-  totalCollateral: t.bigint().notNull(),
-  disputeActive: t.boolean().notNull(),
-  disputeOpenedAt: t.bigint(),
-  disputeBond: t.bigint(),
-  createdBlock: t.bigint().notNull(),
-  createdTimestamp: t.bigint().notNull(),
-  updatedBlock: t.bigint().notNull(),
-  updatedTimestamp: t.bigint().notNull(),
-  lastTransactionHash: t.hex().notNull(),
-  resolvedAt: t.bigint(),
-  finalizedAt: t.bigint(),
-}));
+export const markets = onchainTable(
+  "markets",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    onchainId: t.text().notNull(),
+    status: t.text().notNull(),
+    outcome: t.text().notNull(),
+    openEpoch: t.bigint().notNull(),
+    closeEpoch: t.bigint().notNull(),
+    feeBps: t.bigint().notNull(),
+    questionUri: t.text().notNull(),
+    oracleUri: t.text().notNull(),
+    resolutionUri: t.text(),
+    evidenceUri: t.text(),
+    creator: t.hex().notNull(),
+    resolver: t.hex(),
+    totalCollateral: t.bigint().notNull(),
+    openInterest: t.bigint().notNull(),
+    realizedFees: t.bigint().notNull(),
+    lastTradeTimestamp: t.bigint(),
+    streamSequence: t.bigint().notNull(),
+    disputeActive: t.boolean().notNull(),
+    disputeOpenedAt: t.bigint(),
+    disputeBond: t.bigint(),
+    disputeId: t.text(),
+    createdBlock: t.bigint().notNull(),
+    createdTimestamp: t.bigint().notNull(),
+    updatedBlock: t.bigint().notNull(),
+    updatedTimestamp: t.bigint().notNull(),
+    lastTransactionHash: t.hex().notNull(),
+    resolvedAt: t.bigint(),
+    resolutionBlockTimestamp: t.bigint(),
+    resolvedAtOverridden: t.boolean(),
+    disputeDeadline: t.bigint(),
+    finalizedAt: t.bigint(),
+  }),
+  (table) => ({
+    deploymentIdx: index().on(table.chainId, table.contract),
+    settlementIdx: index().on(table.status, table.disputeDeadline),
+    creatorIdx: index().on(table.creator),
+    closeIdx: index().on(table.closeEpoch),
+  }),
+);
 
-export const orders = onchainTable("orders", (t) => ({
-  id: t.text().primaryKey(),
-  marketId: t.text().notNull(),
-  owner: t.hex().notNull(),
-  beneficiary: t.hex().notNull(),
-  position: t.text().notNull(),
-  price: t.bigint().notNull(),
-  quantity: t.bigint().notNull(),
-  filled: t.bigint().notNull(),
-  orderType: t.text().notNull(),
-  expirationEpoch: t.bigint().notNull(),
-  active: t.boolean().notNull(),
-  createdBlock: t.bigint().notNull(),
-  createdTimestamp: t.bigint().notNull(),
-  createdTransaction: t.hex().notNull(),
-  updatedBlock: t.bigint().notNull(),
-  updatedTimestamp: t.bigint().notNull(),
-  updatedTransaction: t.hex().notNull(),
-  lastFillBlock: t.bigint(),
-  lastFillTimestamp: t.bigint(),
-}));
+export const orders = onchainTable(
+  "orders",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    onchainId: t.text().notNull(),
+    marketId: t.text().notNull(),
+    owner: t.hex().notNull(),
+    beneficiary: t.hex().notNull(),
+    position: t.text().notNull(),
+    price: t.bigint().notNull(),
+    quantity: t.bigint().notNull(),
+    filled: t.bigint().notNull(),
+    orderType: t.text().notNull(),
+    expirationEpoch: t.bigint().notNull(),
+    active: t.boolean().notNull(),
+    state: t.text().notNull(),
+    createdBlock: t.bigint().notNull(),
+    createdTimestamp: t.bigint().notNull(),
+    createdTransaction: t.hex().notNull(),
+    updatedBlock: t.bigint().notNull(),
+    updatedTimestamp: t.bigint().notNull(),
+    updatedTransaction: t.hex().notNull(),
+    lastFillBlock: t.bigint(),
+    lastFillTimestamp: t.bigint(),
+  }),
+  (table) => ({
+    bookIdx: index().on(table.marketId, table.active, table.position, table.price),
+    expiryIdx: index().on(table.active, table.expirationEpoch),
+  }),
+);
 
-export const fills = onchainTable("fills", (t) => ({
-  id: t.text().primaryKey(),
-  orderId: t.text().notNull(),
-  marketId: t.text().notNull(),
-  makerPosition: t.text().notNull(),
-  takerOutcome: t.text().notNull(),
-  filler: t.hex().notNull(),
-  recipient: t.hex().notNull(),
-  quantity: t.bigint().notNull(),
-  price: t.bigint().notNull(),
-  fee: t.bigint().notNull(),
-  cost: t.bigint().notNull(),
-  blockNumber: t.bigint().notNull(),
-  blockTimestamp: t.bigint().notNull(),
-  transactionHash: t.hex().notNull(),
-  logIndex: t.bigint().notNull(),
-}));
+// Append-only placement and cancellation history; `orders` only holds the latest state of each order.
+export const orderEvents = onchainTable(
+  "order_events",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    orderId: t.text().notNull(),
+    marketId: t.text().notNull(),
+    kind: t.text().notNull(),
+    quantity: t.bigint().notNull(),
+    blockNumber: t.bigint().notNull(),
+    blockTimestamp: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+  }),
+  (table) => ({
+    orderIdx: index().on(table.orderId, table.blockNumber),
+    marketIdx: index().on(table.marketId, table.blockNumber),
+  }),
+);
 
-export const positions = onchainTable("positions", (t) => ({
-  id: t.text().primaryKey(),
-  marketId: t.text().notNull(),
-  trader: t.hex().notNull(),
-  outcome: t.text().notNull(),
-  shares: t.bigint().notNull(),
-  updatedBlock: t.bigint().notNull(),
-  updatedTimestamp: t.bigint().notNull(),
-  updatedTransaction: t.hex().notNull(),
-}));
+export const fills = onchainTable(
+  "fills",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    orderId: t.text().notNull(),
+    marketId: t.text().notNull(),
+    makerPosition: t.text().notNull(),
+    takerOutcome: t.text().notNull(),
+    filler: t.hex().notNull(),
+    recipient: t.hex().notNull(),
+    quantity: t.bigint().notNull(),
+    price: t.bigint().notNull(),
+    reportedFee: t.bigint().notNull(),
+    netPayoutPerShare: t.bigint().notNull(),
+    expectedNetPayout: t.bigint().notNull(),
+    cost: t.bigint().notNull(),
+    blockNumber: t.bigint().notNull(),
+    blockTimestamp: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+    logIndex: t.bigint().notNull(),
+  }),
+  (table) => ({
+    marketTimeIdx: index().on(table.marketId, table.blockTimestamp),
+    marketBlockIdx: index().on(table.marketId, table.blockNumber),
+  }),
+);
 
-export const traderApprovals = onchainTable("trader_approvals", (t) => ({
-  trader: t.hex().primaryKey(),
-  approved: t.boolean().notNull(),
-  updatedBlock: t.bigint().notNull(),
-  updatedTimestamp: t.bigint().notNull(),
-  updatedTransaction: t.hex().notNull(),
-}));
+export const candles = onchainTable(
+  "candles",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    marketId: t.text().notNull(),
+    interval: t.text().notNull(),
+    bucketStart: t.bigint().notNull(),
+    open: t.bigint().notNull(),
+    high: t.bigint().notNull(),
+    low: t.bigint().notNull(),
+    close: t.bigint().notNull(),
+    volumeShares: t.bigint().notNull(),
+    volumeCollateral: t.bigint().notNull(),
+    trades: t.integer().notNull(),
+    updatedBlock: t.bigint().notNull(),
+  }),
+  (table) => ({
+    seriesIdx: index().on(table.marketId, table.interval, table.bucketStart),
+  }),
+);
+
+export const positions = onchainTable(
+  "positions",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    marketId: t.text().notNull(),
+    trader: t.hex().notNull(),
+    outcome: t.text().notNull(),
+    shares: t.bigint().notNull(),
+    costBasis: t.bigint().notNull(),
+    realizedPnl: t.bigint().notNull(),
+    updatedBlock: t.bigint().notNull(),
+    updatedTimestamp: t.bigint().notNull(),
+    updatedTransaction: t.hex().notNull(),
+  }),
+  (table) => ({
+    traderIdx: index().on(table.trader),
+  }),
+);
+
+export const payouts = onchainTable(
+  "payouts",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    marketId: t.text().notNull(),
+    claimant: t.hex().notNull(),
+    outcome: t.text().notNull(),
+    grossAmount: t.bigint().notNull(),
+    fee: t.bigint().notNull(),
+    netAmount: t.bigint().notNull(),
+    blockNumber: t.bigint().notNull(),
+    blockTimestamp: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+  }),
+  (table) => ({
+    claimantIdx: index().on(table.claimant),
+    marketIdx: index().on(table.marketId, table.blockNumber),
+  }),
+);
+
+export const traderApprovals = onchainTable(
+  "trader_approvals",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    trader: t.hex().notNull(),
+    approved: t.boolean().notNull(),
+    updatedBlock: t.bigint().notNull(),
+    updatedTimestamp: t.bigint().notNull(),
+    updatedTransaction: t.hex().notNull(),
+  }),
+  (table) => ({
+    traderIdx: index().on(table.trader),
+  }),
+);
 
 export const tradingConfig = onchainTable("trading_config", (t) => ({
   id: t.text().primaryKey(),
+  chainId: t.integer().notNull(),
+  contract: t.hex().notNull(),
   approvalRequired: t.boolean().notNull(),
+  paymentToken: t.hex().notNull(),
+  creationAgent: t.hex().notNull(),
+  resolutionAgent: t.hex().notNull(),
+  feeRecipient: t.hex().notNull(),
+  approvalAuthority: t.hex().notNull(),
+  disputeWindow: t.bigint().notNull(),
+  disputeBond: t.bigint().notNull(),
   updatedBlock: t.bigint().notNull(),
   updatedTimestamp: t.bigint().notNull(),
   updatedTransaction: t.hex().notNull(),
 }));
 
-export const disputes = onchainTable("disputes", (t) => ({
-  marketId: t.text().primaryKey(),
-  evidenceUri: t.text().notNull(),
-  bondAmount: t.bigint().notNull(),
-  openedAt: t.bigint().notNull(),
-  disputant: t.hex().notNull(),
+export const adminEvents = onchainTable(
+  "admin_events",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    eventName: t.text().notNull(),
+    field: t.text().notNull(),
+    subject: t.hex(),
+    previousValue: t.text(),
+    newValue: t.text().notNull(),
+    blockNumber: t.bigint().notNull(),
+    blockTimestamp: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+  }),
+  (table) => ({
+    timeIdx: index().on(table.blockNumber),
+  }),
+);
+
+export const disputes = onchainTable(
+  "disputes",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    marketId: t.text().notNull(),
+    evidenceUri: t.text().notNull(),
+    bondAmount: t.bigint().notNull(),
+    openedAt: t.bigint().notNull(),
+    disputant: t.hex().notNull(),
+    status: t.text().notNull(),
+    closedAt: t.bigint(),
+    closedTransaction: t.hex(),
+    blockNumber: t.bigint().notNull(),
+    blockTimestamp: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+  }),
+  (table) => ({
+    marketIdx: index().on(table.marketId),
+  }),
+);
+
+export const marketEvents = onchainTable(
+  "market_events",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    marketId: t.text().notNull(),
+    eventName: t.text().notNull(),
+    previousStatus: t.text(),
+    newStatus: t.text().notNull(),
+    actor: t.hex().notNull(),
+    outcome: t.text(),
+    resolutionUri: t.text(),
+    evidenceUri: t.text(),
+    blockNumber: t.bigint().notNull(),
+    blockTimestamp: t.bigint().notNull(),
+    transactionHash: t.hex().notNull(),
+  }),
+  (table) => ({
+    marketIdx: index().on(table.marketId, table.blockNumber),
+  }),
+);
+
+export const marketStream = onchainTable(
+  "market_stream",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chainId: t.integer().notNull(),
+    contract: t.hex().notNull(),
+    marketId: t.text().notNull(),
+    sequence: t.bigint().notNull(),
+    kind: t.text().notNull(),
+    payload: t.json().notNull(),
+    blockNumber: t.bigint().notNull(),
+    blockHash: t.hex().notNull(),
+    blockTimestamp: t.bigint().notNull(),
+    transactionHash: t.hex(),
+  }),
+  (table) => ({
+    sequenceIdx: index().on(table.marketId, table.sequence),
+    chainTimeIdx: index().on(table.chainId, table.blockTimestamp),
+  }),
+);
+
+export const indexerHead = onchainTable("indexer_head", (t) => ({
+  id: t.text().primaryKey(),
+  chainId: t.integer().notNull(),
   blockNumber: t.bigint().notNull(),
   blockTimestamp: t.bigint().notNull(),
-  transactionHash: t.hex().notNull(),
+}));
+
+// Metadata URIs referenced by indexed events. Documents are not fetched while indexing; the metadata worker stores what
+// these URIs resolve to in offchain.metadata_documents (src/metadata/store.ts).
+export const metadataUris = onchainTable("metadata_uris", (t) => ({
+  uri: t.text().primaryKey(),
+  kind: t.text().notNull(),
+  firstSeenBlock: t.bigint().notNull(),
+  firstSeenTimestamp: t.bigint().notNull(),
+}));
+
+export const marketsRelations = relations(markets, ({ one }) => ({
+  question: one(metadataUris, { fields: [markets.questionUri], references: [metadataUris.uri] }),
+  oracle: one(metadataUris, { fields: [markets.oracleUri], references: [metadataUris.uri] }),
 }));
@@ -0,0 +1,65 @@
+#!/usr/bin/env sh
+# Checks that admin updates seen before any other event of a deployment are logged with the values they replaced,
+# which the indexer reads from the contract as it was before the update.
+#
+# Start Anvil (automining, so each deployment transaction gets its own block), deploy a fresh contract whose deploy
+# script updates the approval authority and the approval requirement right after the constructor, and run the indexer
+# against it without sending it anything else:
+#
+#   PREDICTION_MARKET_APPROVAL_AUTHORITY=0x... PREDICTION_MARKET_REQUIRE_TRADER_APPROVAL=true \
+#     forge script script/PredictionMarketDeploy.s.sol --rpc-url http://localhost:8545 --broadcast ...
+#
+# The approval authority must differ from PREDICTION_MARKET_OWNER. Then:
+#
+#   RPC_URL=http://localhost:8545 PREDICTION_MARKET_ADDRESS=0x... sh scripts/admin/run.sh
+set -eu
+. "$(dirname "$0")/../lib.sh"
+
+: "${RPC_URL:?RPC_URL must point at an Anvil node}"
+: "${PREDICTION_MARKET_ADDRESS:?PREDICTION_MARKET_ADDRESS must be set}"
+API_URL="${API_URL:-http://localhost:42069}"
+TIMEOUT="${ADMIN_TEST_TIMEOUT:-60}"
+
+lower() { tr 'A-Z' 'a-z'; }
+
+# <eventName> <previousValue|newValue> of the logged change
+change_field() {
+  curl -sf "$API_URL/protocol" | json "changes.find((c)=>c.eventName===\"$1\")?.$2"
+}
+
+changes_indexed() {
+  [ -n "$(change_field TraderApprovalAuthorityUpdated newValue)" ] &&
+    [ -n "$(change_field TraderApprovalRequirementUpdated newValue)" ]
+}
+
+failures=0
+# expect <eventName> <field> <expected value>
+expect() {
+  actual="$(change_field "$1" "$2")"
+  if [ "$actual" = "$3" ]; then
+    echo "OK: $1 $2 = $3"
+  else
+    echo "FAIL: $1 $2 = $actual, expected $3" >&2
+    failures=$((failures + 1))
+  fi
+}
+
+OWNER="$(cast call --rpc-url "$RPC_URL" "$PREDICTION_MARKET_ADDRESS" "owner()(address)" | lower)"
+AUTHORITY="$(cast call --rpc-url "$RPC_URL" "$PREDICTION_MARKET_ADDRESS" "approvalAuthority()(address)" | lower)"
+if [ "$AUTHORITY" = "$OWNER" ]; then
+  echo "FAIL: deploy with PREDICTION_MARKET_APPROVAL_AUTHORITY set to an address other than the owner" >&2
+  exit 1
+fi
+
+wait_for "the deploy script's admin updates to be indexed" changes_indexed
+
+# The constructor made the owner the approval authority and left approvals optional.
+expect TraderApprovalAuthorityUpdated previousValue "$OWNER"
+expect TraderApprovalAuthorityUpdated newValue "$AUTHORITY"
+expect TraderApprovalRequirementUpdated previousValue false
+expect TraderApprovalRequirementUpdated newValue true
+
+if [ "$failures" -gt 0 ]; then
+  echo "$failures admin check(s) failed" >&2
+  exit 1
+fi
@@ -0,0 +1,9 @@
+-- Removes the rows written by seed.sql.
+--
+--   psql "$DATABASE_URL" -v schema=public -f scripts/bench/cleanup.sql
+
+\set ON_ERROR_STOP on
+SET search_path TO :"schema";
+
+DELETE FROM orders WHERE length(onchain_id) >= 9 AND onchain_id::numeric >= 900000000;
+DELETE FROM markets WHERE length(onchain_id) >= 9 AND onchain_id::numeric >= 900000000;
@@ -0,0 +1,67 @@
+#!/usr/bin/env sh
+# Measures book and planner latency against a database seeded by seed.sql.
+#
+# Start the API against the same database first (e.g. `pnpm ponder serve --schema public`), then:
+#
+#   DATABASE_URL=postgres://... PREDICTION_MARKET_ADDRESS=0x... BENCH_CHAIN_ID=1 sh scripts/bench/run.sh
+#
+# Rows are seeded under that deployment, which must be the only one the API serves.
+# Set BENCH_SEED=0 to reuse previously seeded rows and BENCH_CLEANUP=1 to drop them afterwards.
+# Run once on each revision to compare.
+set -eu
+
+: "${DATABASE_URL:?DATABASE_URL must point at the indexer database}"
+: "${PREDICTION_MARKET_ADDRESS:?PREDICTION_MARKET_ADDRESS must be the indexed contract}"
+CHAIN_ID="${BENCH_CHAIN_ID:-1}"
+CONTRACT="$(echo "$PREDICTION_MARKET_ADDRESS" | tr 'A-F' 'a-f')"
+SCHEMA="${DATABASE_SCHEMA:-public}"
+API_URL="${API_URL:-http://localhost:42069}"
+MARKETS="${BENCH_MARKETS:-200}"
+ORDERS="${BENCH_ORDERS:-300000}"
+REQUESTS="${BENCH_REQUESTS:-50}"
+MARKET_ID="${BENCH_MARKET_ID:-900000001}"
+DIR="$(dirname "$0")"
+
+if [ "${BENCH_SEED:-1}" = "1" ]; then
+  echo "Seeding ${ORDERS} orders across ${MARKETS} markets into schema ${SCHEMA}..."
+  psql "$DATABASE_URL" -q -v schema="$SCHEMA" -v chain_id="$CHAIN_ID" -v contract="$CONTRACT" \
+    -v markets="$MARKETS" -v orders="$ORDERS" -f "$DIR/seed.sql"
+fi
+
+echo "Query plan for the active book of market ${MARKET_ID}:"
+psql "$DATABASE_URL" -q -v schema="$SCHEMA" -v market="$CHAIN_ID:$CONTRACT:$MARKET_ID" <<'SQL'
+SET search_path TO :"schema";
+EXPLAIN ANALYZE
+SELECT id, position, price, quantity, filled
+FROM orders
+WHERE market_id = :'market' AND active = true;
+SQL
+
+measure() {
+  label="$1"
+  shift
+  i=0
+  : > "$DIR/.timings"
+  while [ "$i" -lt "$REQUESTS" ]; do
+    curl -s -o /dev/null -w '%{time_total}\n' "$@" >> "$DIR/.timings"
+    i=$((i + 1))
+  done
+  sort -n "$DIR/.timings" | awk -v label="$label" '
+    { t[NR] = $1; sum += $1 }
+    END {
+      p50 = t[int(NR * 0.5) + (NR * 0.5 > int(NR * 0.5))]
+      p95 = t[int(NR * 0.95) + (NR * 0.95 > int(NR * 0.95))]
+      printf "%-12s n=%d avg=%.1fms p50=%.1fms p95=%.1fms\n", label, NR, sum / NR * 1000, p50 * 1000, p95 * 1000
+    }'
+  rm -f "$DIR/.timings"
+}
+
+measure "book" "$API_URL/markets/$MARKET_ID/book"
+measure "top-of-book" "$API_URL/markets/$MARKET_ID/top-of-book"
+measure "plan-fill" -X POST -H 'content-type: application/json' \
+  -d "{\"marketId\":\"$MARKET_ID\",\"outcome\":\"Yes\",\"quantity\":\"1000000\"}" \
+  "$API_URL/plan-fill"
+
+if [ "${BENCH_CLEANUP:-0}" = "1" ]; then
+  psql "$DATABASE_URL" -q -v schema="$SCHEMA" -f "$DIR/cleanup.sql"
+fi
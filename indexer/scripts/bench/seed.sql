@@ -0,0 +1,54 @@
+-- Seeds synthetic markets and orders for the book benchmark.
+--
+--   psql "$DATABASE_URL" -v schema=public -v chain_id=1 -v contract=0x... -v markets=200 -v orders=300000 \
+--     -f scripts/bench/seed.sql
+--
+-- Rows are keyed under the given deployment (lowercase contract address) like indexed ones. Seeded on-chain ids
+-- start at 900000000 so they never collide with indexed data; cleanup.sql removes them.
+
+\set ON_ERROR_STOP on
+SET search_path TO :"schema";
+
+BEGIN;
+
+INSERT INTO markets (
+  id, chain_id, contract, onchain_id, status, outcome, open_epoch, close_epoch, fee_bps, question_uri, oracle_uri,
+  creator, total_collateral, open_interest, realized_fees, stream_sequence, dispute_active, created_block, created_timestamp,
+  updated_block, updated_timestamp, last_transaction_hash
+)
+SELECT
+  :chain_id || ':' || :'contract' || ':' || (900000000 + m), :chain_id, :'contract', (900000000 + m)::text, 'Active', 'Undefined', 0, 4102444800, 100,
+  'ipfs://bench/' || m, 'ipfs://bench/oracle/' || m,
+  '0x000000000000000000000000000000000000beef', 0, 0, 0, 0, false, 0, 0,
+  0, 0, '0x' || repeat('0', 64)
+FROM generate_series(1, :markets) AS m;
+
+INSERT INTO orders (
+  id, chain_id, contract, onchain_id, market_id, owner, beneficiary, position, price, quantity, filled, order_type,
+  expiration_epoch, active, state, created_block, created_timestamp, created_transaction,
+  updated_block, updated_timestamp, updated_transaction
+)
+SELECT
+  :chain_id || ':' || :'contract' || ':' || (900000000 + o),
+  :chain_id,
+  :'contract',
+  (900000000 + o)::text,
+  :chain_id || ':' || :'contract' || ':' || (900000000 + 1 + (o % :markets)),
+  '0x000000000000000000000000000000000000beef',
+  '0x000000000000000000000000000000000000beef',
+  CASE WHEN o % 2 = 0 THEN 'Yes' ELSE 'No' END,
+  (1 + (o * 7919) % 999) * 1000,
+  1000000,
+  CASE WHEN o % 3 = 0 THEN 1000000 ELSE 0 END,
+  'GoodTilCancel',
+  0,
+  o % 3 <> 0,
+  CASE WHEN o % 3 = 0 THEN 'filled' ELSE 'open' END,
+  o, 0, '0x' || repeat('0', 64),
+  o, 0, '0x' || repeat('0', 64)
+FROM generate_series(1, :orders) AS o;
+
+COMMIT;
+
+ANALYZE markets;
+ANALYZE orders;
@@ -0,0 +1,65 @@
+#!/usr/bin/env sh
+# Deploys a mock payment token and a PredictionMarket to a fresh Anvil chain for scripts/keeper/run.sh, funds the two
+# traders, and prints the environment both the indexer and run.sh expect. The whole check, from the indexer directory:
+#
+#   anvil &
+#   eval "$(sh scripts/keeper/deploy.sh)"
+#   pnpm dev &
+#   sh scripts/keeper/run.sh
+#
+# Roles use Anvil's default accounts: 0 owns the contract and receives fees, 1 and 2 are the creation and resolution
+# agents, 3 and 4 are traders A and B. Needs Foundry (forge, cast) and the contracts' submodules (forge install).
+set -eu
+. "$(dirname "$0")/../lib.sh"
+
+RPC_URL="${RPC_URL:-http://localhost:8545}"
+CONTRACTS_DIR="$(cd "$INDEXER_DIR/../contracts" && pwd)"
+DISPUTE_WINDOW="${KEEPER_TEST_DISPUTE_WINDOW:-60}"
+FUNDING=1000000000000
+
+OWNER_KEY=0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80
+CREATION_AGENT_KEY=0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d
+RESOLUTION_AGENT_KEY=0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a
+TRADER_A_KEY=0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6
+TRADER_B_KEY=0x47e179ec197488593b187f80a00eb0da91f1b9d0b13f8733639f19c30a34926a
+
+address_of() { cast wallet address "$1"; }
+
+CHAIN_ID="$(cast chain-id --rpc-url "$RPC_URL")"
+OWNER="$(address_of "$OWNER_KEY")"
+
+cd "$CONTRACTS_DIR"
+PAYMENT_TOKEN="$(forge create --json --broadcast --rpc-url "$RPC_URL" --private-key "$OWNER_KEY" \
+  test/PredictionMarket.t.sol:MockERC20 --constructor-args "Mock USD" mUSD 6 | json deployedTo)"
+for key in "$TRADER_A_KEY" "$TRADER_B_KEY"; do
+  cast send --rpc-url "$RPC_URL" --private-key "$OWNER_KEY" "$PAYMENT_TOKEN" "mint(address,uint256)" \
+    "$(address_of "$key")" "$FUNDING" > /dev/null
+done
+
+START_BLOCK="$(cast block-number --rpc-url "$RPC_URL")"
+PREDICTION_MARKET_OWNER="$OWNER" \
+  PREDICTION_MARKET_CREATION_AGENT="$(address_of "$CREATION_AGENT_KEY")" \
+  PREDICTION_MARKET_RESOLUTION_AGENT="$(address_of "$RESOLUTION_AGENT_KEY")" \
+  PREDICTION_MARKET_PAYMENT_TOKEN="$PAYMENT_TOKEN" \
+  PREDICTION_MARKET_FEE_RECIPIENT="$OWNER" \
+  PREDICTION_MARKET_DISPUTE_WINDOW="$DISPUTE_WINDOW" \
+  PREDICTION_MARKET_DISPUTE_BOND=1000000 \
+  forge script script/PredictionMarketDeploy.s.sol --rpc-url "$RPC_URL" --private-key "$OWNER_KEY" --broadcast >&2
+PREDICTION_MARKET_ADDRESS="$(json 'transactions.find((t)=>t.contractName==="PredictionMarket").contractAddress' \
+  < "broadcast/PredictionMarketDeploy.s.sol/$CHAIN_ID/run-latest.json")"
+echo "Deployed PredictionMarket at $PREDICTION_MARKET_ADDRESS with payment token $PAYMENT_TOKEN" >&2
+
+cat <<EOF
+export RPC_URL=$RPC_URL
+export PONDER_RPC_URL=$RPC_URL
+export PONDER_CHAIN_NAME=anvil
+export PREDICTION_MARKET_CHAIN_ID=$CHAIN_ID
+export PREDICTION_MARKET_START_BLOCK=$START_BLOCK
+export PREDICTION_MARKET_ADDRESS=$PREDICTION_MARKET_ADDRESS
+export PAYMENT_TOKEN=$PAYMENT_TOKEN
+export OWNER_KEY=$OWNER_KEY
+export CREATION_AGENT_KEY=$CREATION_AGENT_KEY
+export RESOLUTION_AGENT_KEY=$RESOLUTION_AGENT_KEY
+export TRADER_A_KEY=$TRADER_A_KEY
+export TRADER_B_KEY=$TRADER_B_KEY
+EOF
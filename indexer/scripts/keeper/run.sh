@@ -0,0 +1,142 @@
+#!/usr/bin/env sh
+# Runs the keeper against a local Anvil chain and checks that it finalizes a market once its dispute window has
+# passed, cancels an expired order, sweeps the winning payout to a recipient, and never submits a job twice, whether
+# its job log is kept or lost.
+#
+# scripts/keeper/deploy.sh sets up a fresh Anvil chain and prints the environment this script and the indexer read:
+#
+#   anvil &
+#   eval "$(sh scripts/keeper/deploy.sh)"
+#   pnpm dev &
+#   sh scripts/keeper/run.sh
+#
+# Against another deployment, set RPC_URL, PREDICTION_MARKET_ADDRESS, PAYMENT_TOKEN, OWNER_KEY, CREATION_AGENT_KEY,
+# RESOLUTION_AGENT_KEY, TRADER_A_KEY and TRADER_B_KEY yourself; both traders must hold payment tokens. The script
+# moves Anvil's clock forward past the market close and the dispute window, so run it against a throwaway chain.
+set -eu
+. "$(dirname "$0")/../lib.sh"
+
+: "${RPC_URL:?RPC_URL must point at an Anvil node}"
+: "${PREDICTION_MARKET_ADDRESS:?PREDICTION_MARKET_ADDRESS must be set}"
+: "${PAYMENT_TOKEN:?PAYMENT_TOKEN must be set}"
+: "${OWNER_KEY:?OWNER_KEY must be the contract owner key}"
+: "${CREATION_AGENT_KEY:?CREATION_AGENT_KEY must be the creation agent key}"
+: "${RESOLUTION_AGENT_KEY:?RESOLUTION_AGENT_KEY must be the resolution agent key}"
+: "${TRADER_A_KEY:?TRADER_A_KEY must be a funded Anvil private key}"
+: "${TRADER_B_KEY:?TRADER_B_KEY must be a funded Anvil private key}"
+API_URL="${API_URL:-http://localhost:42069}"
+SWEEP_RECIPIENT="${KEEPER_TEST_RECIPIENT:-0x000000000000000000000000000000000000bEEF}"
+QUANTITY="${KEEPER_TEST_QUANTITY:-1000000}"
+PRICE=600000
+TIMEOUT="${KEEPER_TEST_TIMEOUT:-60}"
+ZERO=0x0000000000000000000000000000000000000000
+
+JOB_DIR="$(mktemp -d)"
+trap 'rm -rf "$JOB_DIR"' EXIT
+
+send() {
+  key="$1"
+  shift
+  cast send --json --rpc-url "$RPC_URL" --private-key "$key" "$@"
+}
+
+# Decimal value of the first indexed topic (a market or order id) of the transaction's first log from the contract.
+first_indexed_id() {
+  cast to-dec "$(json "logs.find((l)=>l.address.toLowerCase()===\"$(echo "$PREDICTION_MARKET_ADDRESS" | tr 'A-Z' 'a-z')\").topics[1]")"
+}
+
+chain_time() { cast block latest --field timestamp --rpc-url "$RPC_URL"; }
+
+advance() {
+  cast rpc --rpc-url "$RPC_URL" evm_increaseTime "$1" > /dev/null
+  cast rpc --rpc-url "$RPC_URL" anvil_mine 1 > /dev/null
+}
+
+run_keeper() {
+  KEEPER_RPC_URL="$RPC_URL" KEEPER_API_URL="$API_URL" KEEPER_CONTRACT="$PREDICTION_MARKET_ADDRESS" \
+    KEEPER_OWNER_KEY="$OWNER_KEY" KEEPER_ACCOUNT_KEYS="$TRADER_A_KEY,$TRADER_B_KEY" \
+    KEEPER_PAYOUT_RECIPIENT="$SWEEP_RECIPIENT" KEEPER_JOB_LOG="$1" KEEPER_ONCE=true KEEPER_RETRY_MS=0 \
+    "$TSX" "$INDEXER_DIR/bots/keeper/main.ts"
+}
+
+nonces() {
+  for key in "$OWNER_KEY" "$TRADER_A_KEY" "$TRADER_B_KEY"; do
+    printf '%s ' "$(cast nonce --rpc-url "$RPC_URL" "$(cast wallet address "$key")")"
+  done
+}
+
+market_field() { curl -sf "$API_URL/markets/$MARKET_ID" | json "$1"; }
+order_field() { curl -sf "$API_URL/orders/$1" | json "$2"; }
+finalizable() { curl -sf "$API_URL/markets/finalizable" | json "markets.some((m)=>m.marketId===\"$MARKET_ID\")"; }
+claimable() { curl -sf "$API_URL/traders/$TRADER_A/claimable" | json "claimable.find((c)=>c.marketId===\"$MARKET_ID\")?.netAmount"; }
+
+market_finalizable() { [ "$(finalizable)" = "true" ]; }
+market_finalized() { [ "$(market_field status)" = "Finalized" ]; }
+expired_order_cancelled() { [ "$(order_field "$EXPIRING_ORDER_ID" active)" = "false" ]; }
+payout_claimable() { [ -n "$(claimable)" ]; }
+payout_claimed() { [ -z "$(claimable)" ]; }
+
+TRADER_A="$(cast wallet address "$TRADER_A_KEY" | tr 'A-Z' 'a-z')"
+TRADER_B="$(cast wallet address "$TRADER_B_KEY" | tr 'A-Z' 'a-z')"
+
+# Setup: a market where A's Yes order is filled by B and a second A order that will expire unfilled.
+for trader in "$TRADER_A" "$TRADER_B"; do
+  send "$OWNER_KEY" "$PREDICTION_MARKET_ADDRESS" "setTraderApproval(address,bool)" "$trader" true > /dev/null
+done
+for key in "$TRADER_A_KEY" "$TRADER_B_KEY"; do
+  send "$key" "$PAYMENT_TOKEN" "approve(address,uint256)" "$PREDICTION_MARKET_ADDRESS" "$((QUANTITY * 4))" > /dev/null
+done
+
+now="$(chain_time)"
+MARKET_ID="$(send "$CREATION_AGENT_KEY" "$PREDICTION_MARKET_ADDRESS" \
+  "createMarket((string,string,uint64,uint64,uint16))" \
+  "(ipfs://keeper-test-question,https://example.com/keeper-test-oracle,$now,$((now + 120)),100)" | first_indexed_id)"
+echo "Created market $MARKET_ID"
+
+ORDER_ID="$(send "$TRADER_A_KEY" "$PREDICTION_MARKET_ADDRESS" \
+  "submitOrder((uint256,uint8,uint128,uint128,uint8,uint64,address))" \
+  "($MARKET_ID,1,$PRICE,$QUANTITY,0,0,$ZERO)" | first_indexed_id)"
+send "$TRADER_B_KEY" "$PREDICTION_MARKET_ADDRESS" "fillOrder((uint256,uint128,uint128,address))" \
+  "($ORDER_ID,$PRICE,$QUANTITY,$ZERO)" > /dev/null
+EXPIRING_ORDER_ID="$(send "$TRADER_A_KEY" "$PREDICTION_MARKET_ADDRESS" \
+  "submitOrder((uint256,uint8,uint128,uint128,uint8,uint64,address))" \
+  "($MARKET_ID,1,$PRICE,$QUANTITY,0,$((now + 60)),$ZERO)" | first_indexed_id)"
+echo "Filled order $ORDER_ID; order $EXPIRING_ORDER_ID expires at $((now + 60))"
+
+advance 121
+send "$RESOLUTION_AGENT_KEY" "$PREDICTION_MARKET_ADDRESS" \
+  "resolveMarket(uint256,(uint8,string,string,uint64))" \
+  "$MARKET_ID" "(1,ipfs://keeper-test-resolution,ipfs://keeper-test-evidence,0)" > /dev/null
+advance "$(($(cast call --rpc-url "$RPC_URL" "$PREDICTION_MARKET_ADDRESS" "disputeWindow()(uint64)" | cut -d' ' -f1) + 1))"
+wait_for "the market to be listed as finalizable" market_finalizable
+
+# Round 1: finalization and the expired order. The payout only becomes claimable once the finalization is indexed.
+run_keeper "$JOB_DIR/jobs.jsonl"
+wait_for "the finalization to be indexed" market_finalized
+echo "OK: the keeper finalized market $MARKET_ID"
+wait_for "the expired order's cancellation to be indexed" expired_order_cancelled
+echo "OK: the keeper cancelled expired order $EXPIRING_ORDER_ID"
+
+# Round 2: A's winning Yes position, swept to the recipient.
+wait_for "A's payout to be claimable" payout_claimable
+expected="$(claimable)"
+before="$(cast call --rpc-url "$RPC_URL" "$PAYMENT_TOKEN" "balanceOf(address)(uint256)" "$SWEEP_RECIPIENT" | cut -d' ' -f1)"
+run_keeper "$JOB_DIR/jobs.jsonl"
+after="$(cast call --rpc-url "$RPC_URL" "$PAYMENT_TOKEN" "balanceOf(address)(uint256)" "$SWEEP_RECIPIENT" | cut -d' ' -f1)"
+if [ "$((after - before))" != "$expected" ]; then
+  echo "FAIL: the recipient received $((after - before)), expected $expected" >&2
+  exit 1
+fi
+echo "OK: the keeper swept a payout of $expected to $SWEEP_RECIPIENT"
+
+# Idempotency: re-runs right after the claim, without and then with the job log, must not send anything. Without the
+# log the claim is usually still listed until it is indexed, and its simulation reverts.
+sent="$(nonces)"
+run_keeper "$JOB_DIR/fresh.jsonl"
+run_keeper "$JOB_DIR/jobs.jsonl"
+wait_for "the claim to be indexed" payout_claimed
+if [ "$(nonces)" != "$sent" ]; then
+  echo "FAIL: re-runs sent transactions (nonces $sent -> $(nonces))" >&2
+  exit 1
+fi
+echo "OK: re-runs with and without the job log sent no transactions"
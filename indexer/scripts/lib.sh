@@ -0,0 +1,35 @@
+# Helpers shared by the scripts under scripts/, which source it with `. "$(dirname "$0")/../lib.sh"`. Paths are
+# resolved from the sourcing script's location, so the scripts run from any directory.
+
+INDEXER_DIR="$(cd "$(dirname "$0")/../.." && pwd)"
+TSX="$INDEXER_DIR/node_modules/.bin/tsx"
+
+# json <expression>: evaluates `r.<expression>` against the JSON document on stdin; prints nothing for null.
+json() {
+  node -e 'let s="";process.stdin.on("data",(d)=>(s+=d)).on("end",()=>{const v=new Function("r",`return r.${process.argv[1]}`)(JSON.parse(s));console.log(v??"")})' "$1"
+}
+
+# wait_for <description> <command...>: reruns the command every second until it succeeds, failing the script after
+# TIMEOUT seconds (60 unless set).
+wait_for() {
+  description="$1"
+  shift
+  elapsed=0
+  until "$@"; do
+    if [ "$elapsed" -ge "${TIMEOUT:-60}" ]; then
+      echo "FAIL: timed out waiting for $description" >&2
+      exit 1
+    fi
+    sleep 1
+    elapsed=$((elapsed + 1))
+  done
+}
+
+# start_fixture_server <directory>: serves the directory with scripts/resolver/fixture-server.mjs on a free port and
+# sets FIXTURE_URL and SERVER_PID. Needs WORK_DIR; stopping the server is left to the caller's cleanup.
+start_fixture_server() {
+  node "$INDEXER_DIR/scripts/resolver/fixture-server.mjs" "$1" 0 > "$WORK_DIR/port" &
+  SERVER_PID=$!
+  wait_for "the fixture server to start" test -s "$WORK_DIR/port"
+  FIXTURE_URL="http://127.0.0.1:$(cat "$WORK_DIR/port")"
+}
@@ -0,0 +1,18 @@
+// Resolves one metadata URI the way the metadata worker does and prints the result as JSON.
+//
+//   pnpm exec tsx scripts/metadata/check.ts <uri> [question|oracle|resolution|evidence]
+//
+// Gateways come from the METADATA_* environment, so a document published to METADATA_GATEWAY_DIR can be checked
+// before its URI goes on-chain. Used by scripts/metadata/run.sh against fixtures.
+import { createMetadataResolver } from "../../src/metadata";
+import type { MetadataKind } from "../../src/metadata";
+
+const KINDS: readonly MetadataKind[] = ["question", "oracle", "resolution", "evidence"];
+
+const [uri, kind = "question"] = process.argv.slice(2);
+if (!uri || !KINDS.includes(kind as MetadataKind)) {
+  console.error(`Usage: check.ts <uri> [${KINDS.join("|")}]`);
+  process.exit(1);
+}
+
+console.log(JSON.stringify(await createMetadataResolver()(uri, kind as MetadataKind)));
@@ -0,0 +1,75 @@
+#!/usr/bin/env sh
+# Checks metadata resolution against fixtures: `data:`, `ipfs://` and `https://` URIs are resolved through
+# scripts/metadata/check.ts, first from METADATA_GATEWAY_DIR and then through HTTP gateways served by a local fixture
+# server, and each result is compared with the expected status, schema errors or source. Needs no network.
+#
+#   sh scripts/metadata/run.sh
+set -eu
+. "$(dirname "$0")/../lib.sh"
+
+FIXTURES="$INDEXER_DIR/scripts/metadata/fixtures"
+WORK_DIR="$(mktemp -d)"
+SERVER_PID=""
+cleanup() {
+  [ -n "$SERVER_PID" ] && kill "$SERVER_PID" 2> /dev/null
+  rm -rf "$WORK_DIR"
+}
+trap cleanup EXIT
+
+start_fixture_server "$FIXTURES"
+
+failures=0
+# expect <uri> <kind> <field> <expected value>, with the gateways configured by the METADATA_* variables in effect
+expect() {
+  output="$("$TSX" "$INDEXER_DIR/scripts/metadata/check.ts" "$1" "$2")"
+  actual="$(echo "$output" | json "$3")"
+  if [ "$actual" = "$4" ]; then
+    echo "OK: $1 $3 = $4"
+  else
+    echo "FAIL: $1 $3 = $actual, expected $4 ($output)" >&2
+    failures=$((failures + 1))
+  fi
+}
+
+# Documents read from a directory, as for a local chain.
+export METADATA_GATEWAY_DIR="$FIXTURES"
+expect ipfs://question.json question status valid
+expect ipfs://question.json question 'question.tags.join()' election,usa
+expect ipfs://question.json question 'source.endsWith("/ipfs/question.json")' true
+expect ipfs://question-missing-fields.json question status invalid
+expect ipfs://question-missing-fields.json question 'errors.join("; ")' \
+  '$.title is required; $.resolutionCriteria is required'
+expect ipfs://question-wrong-types.json question 'errors.join("; ")' \
+  '$.title must be at least 1 characters; $.tags[1] must be string, got number; $.tags[2] must be at most 32 characters'
+expect ipfs://question-wrong-types.json question 'question === null' true
+expect ipfs://oracle.txt oracle status valid
+expect ipfs://oracle.txt question 'errors.join()' 'Document is not valid JSON'
+expect ipfs://missing.json question status unavailable
+expect ipfs://../../package.json question 'errors[0].includes("outside the metadata directory")' true
+expect 'https://markets.example/question.json?v=2' question 'question.title' \
+  'Will ETH close above 4000 USD on 2026-01-01?'
+
+# data: URIs are decoded in place, whichever gateways are configured.
+QUESTION_BASE64="$(node -e 'process.stdout.write(require("fs").readFileSync(process.argv[1]).toString("base64"))' \
+  "$FIXTURES/ipfs/question.json")"
+expect "data:application/json;base64,$QUESTION_BASE64" question 'question.category' politics
+expect "data:application/json;base64,$QUESTION_BASE64" question contentType application/json
+expect 'data:application/json,%7B%22title%22%3A%22T%22%2C%22description%22%3A%22%22%2C%22resolutionCriteria%22%3A%22R%22%7D' \
+  question status valid
+expect 'data:,see%20attached' evidence contentType text/plain
+expect 'ar://question' question 'errors.join()' 'No gateway handles ar://question'
+
+# Documents fetched over HTTP; the first IPFS gateway refuses connections, so the second one serves the document.
+unset METADATA_GATEWAY_DIR
+export METADATA_IPFS_GATEWAYS="http://127.0.0.1:1/ipfs/,$FIXTURE_URL/ipfs/"
+expect ipfs://question.json question status valid
+expect ipfs://question.json question source "$FIXTURE_URL/ipfs/question.json"
+expect "$FIXTURE_URL/https/markets.example/question.json" question status valid
+expect "$FIXTURE_URL/status/503" oracle 'errors[0].includes("503")' true
+export METADATA_MAX_BYTES=64
+expect ipfs://question.json question 'errors[0].includes("64 byte limit")' true
+
+if [ "$failures" -gt 0 ]; then
+  echo "$failures metadata check(s) failed" >&2
+  exit 1
+fi
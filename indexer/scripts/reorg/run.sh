@@ -0,0 +1,69 @@
+#!/usr/bin/env sh
+# Simulates a reorg on a local Anvil chain and checks that the API drops the reorged order and that
+# `minConfirmations` hides it while it is still shallow.
+#
+# Start Anvil, deploy the contract, create an active market and run the indexer against it, then:
+#
+#   RPC_URL=http://localhost:8545 PREDICTION_MARKET_ADDRESS=0x... PAYMENT_TOKEN=0x... \
+#     TRADER_KEY=0x... REORG_MARKET_ID=1 sh scripts/reorg/run.sh
+#
+# The trader must be approved on the market (when approvals are required) and hold payment tokens.
+set -eu
+. "$(dirname "$0")/../lib.sh"
+
+: "${RPC_URL:?RPC_URL must point at an Anvil node}"
+: "${PREDICTION_MARKET_ADDRESS:?PREDICTION_MARKET_ADDRESS must be set}"
+: "${PAYMENT_TOKEN:?PAYMENT_TOKEN must be set}"
+: "${TRADER_KEY:?TRADER_KEY must be a funded Anvil private key}"
+API_URL="${API_URL:-http://localhost:42069}"
+MARKET_ID="${REORG_MARKET_ID:-1}"
+PRICE="${REORG_PRICE:-123457}"
+QUANTITY="${REORG_QUANTITY:-1000000}"
+TIMEOUT="${REORG_TIMEOUT:-60}"
+
+level_at_price() {
+  curl -sf "$API_URL/markets/$MARKET_ID/book$1" | json "yes.find((l)=>l.price===\"$PRICE\")?.remaining"
+}
+
+head_block() {
+  curl -sf "$API_URL/markets/$MARKET_ID/book" | json "finality.headBlock"
+}
+
+order_visible() { [ "$(level_at_price "")" = "$QUANTITY" ]; }
+order_gone() { [ -z "$(level_at_price "")" ]; }
+head_past() { [ "$(head_block)" -ge "$1" ]; }
+
+if [ -n "$(level_at_price "")" ]; then
+  echo "FAIL: the book already has a Yes level at $PRICE; pick another REORG_PRICE" >&2
+  exit 1
+fi
+
+cast send -q --rpc-url "$RPC_URL" --private-key "$TRADER_KEY" "$PAYMENT_TOKEN" \
+  "approve(address,uint256)" "$PREDICTION_MARKET_ADDRESS" "$QUANTITY"
+
+snapshot="$(cast rpc --rpc-url "$RPC_URL" evm_snapshot | tr -d '"')"
+echo "Snapshot $snapshot taken at block $(cast block-number --rpc-url "$RPC_URL")"
+
+cast send -q --rpc-url "$RPC_URL" --private-key "$TRADER_KEY" "$PREDICTION_MARKET_ADDRESS" \
+  "submitOrder((uint256,uint8,uint128,uint128,uint8,uint64,address))" \
+  "($MARKET_ID,1,$PRICE,$QUANTITY,0,0,0x0000000000000000000000000000000000000000)"
+wait_for "the order to be indexed" order_visible
+
+confirmations="$(curl -sf "$API_URL/markets/$MARKET_ID/book" | json "yes.find((l)=>l.price===\"$PRICE\").confirmations")"
+echo "Order indexed with $confirmations confirmation(s)"
+
+if [ -n "$(level_at_price "?minConfirmations=$((confirmations + 1))")" ]; then
+  echo "FAIL: minConfirmations=$((confirmations + 1)) still shows the order" >&2
+  exit 1
+fi
+echo "OK: minConfirmations=$((confirmations + 1)) hides the order"
+
+reorged_head="$(cast block-number --rpc-url "$RPC_URL")"
+cast rpc --rpc-url "$RPC_URL" evm_revert "$snapshot" > /dev/null
+# Mine past the reorged head so the replacement chain is the longest one.
+cast rpc --rpc-url "$RPC_URL" anvil_mine 3 > /dev/null
+echo "Reverted to snapshot and mined a replacement chain to block $(cast block-number --rpc-url "$RPC_URL")"
+
+wait_for "the indexer to follow the new chain" head_past "$((reorged_head + 1))"
+wait_for "the reorged order to leave the book" order_gone
+echo "OK: the reorged order was removed from the book"
@@ -0,0 +1,34 @@
+// Serves a fixture directory over HTTP for the adapter checks in run.sh and the gateway checks in
+// scripts/metadata/run.sh. `/status/<code>` answers with that status code. Prints the port it listens on (pass 0 for
+// any free port).
+import { readFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import path from "node:path";
+
+const [root, port = "0"] = process.argv.slice(2);
+const resolvedRoot = path.resolve(root);
+
+const server = createServer(async (request, response) => {
+  const { pathname } = new URL(request.url, "http://fixtures");
+  const status = pathname.match(/^\/status\/(\d{3})$/);
+  if (status) {
+    response.writeHead(Number(status[1]), { "content-type": "application/json" });
+    response.end(JSON.stringify({ error: "fixture status" }));
+    return;
+  }
+
+  const file = path.resolve(resolvedRoot, `.${pathname}`);
+  if (!file.startsWith(`${resolvedRoot}${path.sep}`)) {
+    response.writeHead(403).end();
+    return;
+  }
+  try {
+    const body = await readFile(file);
+    response.writeHead(200, { "content-type": file.endsWith(".json") ? "application/json" : "text/plain" });
+    response.end(body);
+  } catch {
+    response.writeHead(404).end();
+  }
+});
+
+server.listen(Number(port), "127.0.0.1", () => console.log(server.address().port));
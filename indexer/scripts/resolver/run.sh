@@ -0,0 +1,59 @@
+#!/usr/bin/env sh
+# Checks the resolver's oracle adapters against a local fixture server: each spec in fixtures/specs is run through
+# bots/resolver/check.ts and its decision compared with the expected one. Needs no chain or indexer.
+#
+#   sh scripts/resolver/run.sh
+set -eu
+. "$(dirname "$0")/../lib.sh"
+
+FIXTURES="$INDEXER_DIR/scripts/resolver/fixtures"
+WORK_DIR="$(mktemp -d)"
+SERVER_PID=""
+cleanup() {
+  [ -n "$SERVER_PID" ] && kill "$SERVER_PID" 2> /dev/null
+  rm -rf "$WORK_DIR"
+}
+trap cleanup EXIT
+
+start_fixture_server "$FIXTURES/http"
+
+mkdir "$WORK_DIR/specs"
+for spec in "$FIXTURES"/specs/*.json; do
+  sed "s#__FIXTURE_URL__#$FIXTURE_URL#g" "$spec" > "$WORK_DIR/specs/$(basename "$spec")"
+done
+
+failures=0
+# expect <spec> <closeEpoch> <field> <expected value>
+expect() {
+  output="$(RESOLVER_QUEUE_DIR="$WORK_DIR/queue" \
+    "$TSX" "$INDEXER_DIR/bots/resolver/check.ts" "$WORK_DIR/specs/$1.json" 7 "$2")"
+  actual="$(echo "$output" | json "$3")"
+  if [ "$actual" = "$4" ]; then
+    echo "OK: $1 $3 = $4"
+  else
+    echo "FAIL: $1 $3 = $actual, expected $4 ($output)" >&2
+    failures=$((failures + 1))
+  fi
+}
+
+expect http-json-yes 0 outcome Yes
+expect http-json-boolean 0 outcome Yes
+expect http-json-undecided 0 status pending
+expect http-json-unavailable 0 'reason.includes("503")' true
+expect price-above 1767225600 outcome Yes
+expect price-above 1767225600 'details.price' 4012.50
+expect price-above 1767312000 outcome No
+expect price-above 1767398400 'reason.includes("404")' true
+expect price-invalid 1767225600 'reason.includes("comparison must be one of")' true
+
+# The manual adapter queues the market, then resolves it once approved.
+expect manual 0 status pending
+RESOLVER_QUEUE_DIR="$WORK_DIR/queue" RESOLVER_APPROVER=fixtures \
+  "$TSX" "$INDEXER_DIR/bots/resolver/queue.ts" approve 0:check:7 No "Checked against the standings" > /dev/null
+expect manual 0 outcome No
+expect manual 0 'details.approvedBy' fixtures
+
+if [ "$failures" -gt 0 ]; then
+  echo "$failures adapter check(s) failed" >&2
+  exit 1
+fi
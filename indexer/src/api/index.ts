@@ -1,216 +1,2283 @@
-import { db } from "ponder:api";
+import { db, publicClients } from "ponder:api";
 import schema from "ponder:schema";
 import { Hono } from "hono";
-import { client, graphql } from "ponder";
+import type { Context } from "hono";
+import { bearerAuth } from "hono/bearer-auth";
+import { streamSSE } from "hono/streaming";
+import type { BlankEnv } from "hono/types";
+import { and, asc, client, desc, eq, graphql, gt, gte, inArray, lt, lte, ne, notExists, or, sql } from "ponder";
+import { encodeFunctionData, isAddress, isHash, zeroAddress } from "viem";
+import type { Address, PublicClient } from "viem";
+import { MAX_FEE_BPS, PRICE_SCALE } from "@infinite-markets/sdk/constants";
+import type { StrictOutcome } from "@infinite-markets/sdk/constants";
+import { fillLimitPrice, payoutFee, stakeFor } from "@infinite-markets/sdk/math";
+
+import { PredictionMarketAbi } from "../../abis/PredictionMarketAbi";
+import { loadDeployments } from "../../deployments";
+import type { Deployment } from "../../deployments";
+import { DRAFT_STATUSES, openDraftStore, validateDraftSpec } from "../drafts";
+import type { DraftStatus, MarketDraft } from "../drafts";
+import { createPublisherFromEnv } from "../metadata/publishing";
+import { metadataDocuments, metadataDocumentsView, titleSearchVector } from "../metadata/store";
+import type { MetadataDocumentRow } from "../metadata/store";
 
 const app = new Hono();
 
-const PRICE_SCALE = 1_000_000n;
-const MAX_FEE_BPS = 10_000n;
+const deployments = loadDeployments();
+
+// Indexed rows are keyed `<chainId>:<contract>:<on-chain id>` so deployments cannot collide; responses report the
+// on-chain id together with the deployment it belongs to.
+const scopeKey = (deployment: Deployment) => `${deployment.chainId}:${deployment.address}`;
+const scopedId = (deployment: Deployment, id: string) => `${scopeKey(deployment)}:${id}`;
+const localId = (id: string) => id.slice(id.lastIndexOf(":") + 1);
+
+const deploymentNameOf = (row: { chainId: number; contract: string }) =>
+  deployments.find(
+    (deployment) => deployment.chainId === row.chainId && deployment.address === row.contract.toLowerCase(),
+  )?.name ?? null;
+
+type DeploymentSelector = { deployment?: string; chainId?: string | number; contract?: string };
+
+// Deployments matching the `deployment` (name), `chainId` and `contract` selector fields; all of them when unset.
+const selectDeployments = (selector: DeploymentSelector): Deployment[] | { error: string } => {
+  const chainId = selector.chainId === undefined ? undefined : String(selector.chainId);
+  if (chainId !== undefined && !/^\d+$/.test(chainId)) {
+    return { error: "chainId must be an integer" };
+  }
+  if (selector.contract !== undefined && !isAddress(selector.contract)) {
+    return { error: "contract must be an address" };
+  }
+
+  const matches = deployments.filter(
+    (deployment) =>
+      (selector.deployment === undefined || deployment.name === selector.deployment) &&
+      (chainId === undefined || deployment.chainId === Number(chainId)) &&
+      (selector.contract === undefined || deployment.address === selector.contract.toLowerCase()),
+  );
+  if (matches.length === 0) {
+    return { error: "No indexed deployment matches the selector" };
+  }
+  return matches;
+};
+
+// Market, order and protocol reads address a single deployment; the selector may be omitted when only one is indexed.
+const resolveDeployment = (selector: DeploymentSelector): Deployment | { error: string } => {
+  const matches = selectDeployments(selector);
+  if ("error" in matches) return matches;
+  if (matches.length > 1) {
+    return {
+      error: `Select one deployment with deployment, chainId or contract (${matches.map((match) => match.name).join(", ")})`,
+    };
+  }
+  return matches[0]!;
+};
+
+type ScopedColumns = { chainId: Parameters<typeof eq>[0]; contract: Parameters<typeof eq>[0] };
+
+const inDeployments = (table: ScopedColumns, selected: Deployment[]) => or(...selected.map((deployment) => and(eq(table.chainId, deployment.chainId), eq(table.contract, deployment.address))));
+
+const CANDLE_INTERVALS = {
+  "1m": 60n,
+  "5m": 300n,
+  "1h": 3_600n,
+  "1d": 86_400n,
+} as const;
+
+type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+const DEFAULT_CANDLE_COUNT = 200n;
+const MAX_CANDLE_COUNT = 5_000n;
+
+const normalizeBigInt = (value: unknown): bigint => {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") return BigInt(value);
+  if (typeof value === "string") return value.startsWith("0x") ? BigInt(value) : BigInt(value);
+  throw new Error(`Unable to normalize value ${value}`);
+};
+
+type BookLevel = {
+  price: string;
+  remaining: string;
+  orders: number;
+  cumulative: string;
+  updatedBlock: string;
+  confirmations: string | null;
+};
+
+type BookSide = "yes" | "no" | "both";
+type BookView = "raw" | "yes" | "no";
+
+type BookOptions = {
+  depth?: number;
+  side: BookSide;
+  view: BookView;
+};
+
+type OrderRow = {
+  id: string;
+  owner: Address;
+  position: StrictOutcome;
+  price: bigint;
+  quantity: bigint;
+  filled: bigint;
+  updatedBlock: bigint;
+};
+
+type BlockRef = {
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+};
+
+type MarketSummary = NonNullable<Awaited<ReturnType<typeof getMarketSummary>>>;
+
+const getMarketSummary = async (marketId: string) => {
+  const rows = await db
+    .select({
+      id: schema.markets.id,
+      status: schema.markets.status,
+      outcome: schema.markets.outcome,
+      feeBps: schema.markets.feeBps,
+      openEpoch: schema.markets.openEpoch,
+      closeEpoch: schema.markets.closeEpoch,
+      disputeActive: schema.markets.disputeActive,
+      totalCollateral: schema.markets.totalCollateral,
+      streamSequence: schema.markets.streamSequence,
+      updatedBlock: schema.markets.updatedBlock,
+      updatedTimestamp: schema.markets.updatedTimestamp,
+    })
+    .from(schema.markets)
+    .where(eq(schema.markets.id, marketId))
+    .limit(1);
+
+  return rows[0] ?? null;
+};
+
+// The summary fields a pinned read replaces with their historical values.
+const liveMarketState = (market: MarketSummary) => ({
+  status: market.status,
+  outcome: market.outcome,
+  disputeActive: Boolean(market.disputeActive),
+  totalCollateral: normalizeBigInt(market.totalCollateral),
+  updatedBlock: normalizeBigInt(market.updatedBlock),
+  updatedTimestamp: normalizeBigInt(market.updatedTimestamp),
+});
+
+// Planner rejections reuse the names of the IPredictionMarket custom errors `fillOrder` would revert with.
+type PlanErrorCode =
+  | "InvalidRequest"
+  | "InvalidOutcome"
+  | "InvalidQuantity"
+  | "InvalidPrice"
+  | "UnknownMarket"
+  | "MarketNotActive"
+  | "MarketClosed"
+  | "TraderNotApproved"
+  | "InsufficientLiquidity";
+
+const planError = (code: PlanErrorCode, error: string, details: Record<string, unknown> = {}) => ({
+  error,
+  code,
+  ...details,
+});
+
+// Amounts in a plan request are unsigned integers, as JSON numbers or decimal strings; anything else is rejected
+// with a 400 rather than thrown from BigInt.
+const parsePlanAmount = (value: unknown): bigint | null => {
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+  return null;
+};
+
+const toBlockRef = (row: { blockNumber: bigint; blockTimestamp: bigint } | undefined): BlockRef | null =>
+  row ? { blockNumber: normalizeBigInt(row.blockNumber), blockTimestamp: normalizeBigInt(row.blockTimestamp) } : null;
+
+// The indexer keeps one head row per chain, keyed by chain id. Its block source starts at the chain tip when the
+// indexer starts, so while historical events are being indexed (including after a restart) the row is missing or
+// behind them; the latest indexed event stands in for it until it catches up.
+const getIndexedHead = async (chainId: number): Promise<BlockRef | null> => {
+  const [headRows, eventRows] = await Promise.all([
+    db
+      .select({
+        blockNumber: schema.indexerHead.blockNumber,
+        blockTimestamp: schema.indexerHead.blockTimestamp,
+      })
+      .from(schema.indexerHead)
+      .where(eq(schema.indexerHead.id, String(chainId)))
+      .limit(1),
+    db
+      .select({
+        blockNumber: schema.marketStream.blockNumber,
+        blockTimestamp: schema.marketStream.blockTimestamp,
+      })
+      .from(schema.marketStream)
+      .where(eq(schema.marketStream.chainId, chainId))
+      .orderBy(desc(schema.marketStream.blockTimestamp), desc(schema.marketStream.blockNumber))
+      .limit(1),
+  ]);
+
+  const head = toBlockRef(headRows[0]);
+  const latestEvent = toBlockRef(eventRows[0]);
+  if (!head || !latestEvent) return head ?? latestEvent;
+  return latestEvent.blockNumber > head.blockNumber ? latestEvent : head;
+};
+
+// Heads of the chains the given deployments live on; chains not indexed yet are left out.
+const getIndexedHeads = async (selected: Deployment[]) => {
+  const heads = new Map<number, BlockRef>();
+  for (const chainId of new Set(selected.map((deployment) => deployment.chainId))) {
+    const head = await getIndexedHead(chainId);
+    if (head) heads.set(chainId, head);
+  }
+  return heads;
+};
+
+const FINALIZED_CACHE_MS = 5_000;
+const finalizedCache = new Map<string, { blockNumber: bigint | null; fetchedAt: number }>();
+
+const chainClient = (chain: string) => (publicClients as Record<string, PublicClient | undefined>)[chain];
+
+// Nodes without a `finalized` tag (or an unreachable RPC) report null rather than failing the request.
+const getFinalizedBlock = async (chain: string): Promise<bigint | null> => {
+  const cached = finalizedCache.get(chain);
+  if (cached && Date.now() - cached.fetchedAt < FINALIZED_CACHE_MS) {
+    return cached.blockNumber;
+  }
+
+  const client = chainClient(chain);
+  let blockNumber: bigint | null = null;
+  try {
+    blockNumber = client ? (await client.getBlock({ blockTag: "finalized" })).number : null;
+  } catch (error) {
+    console.warn("Failed to read the finalized block:", error);
+  }
+
+  finalizedCache.set(chain, { blockNumber, fetchedAt: Date.now() });
+  return blockNumber;
+};
+
+const confirmationsAt = (blockNumber: bigint, headBlock: bigint | undefined) => {
+  if (headBlock === undefined) return null;
+  return blockNumber > headBlock ? "0" : (headBlock - blockNumber + 1n).toString();
+};
+
+const formatFinality = (
+  head: BlockRef | null,
+  finalizedBlock: bigint | null,
+  asOf: BlockRef | null = null,
+) => ({
+  headBlock: head?.blockNumber.toString() ?? null,
+  headTimestamp: head?.blockTimestamp.toString() ?? null,
+  finalizedBlock: finalizedBlock?.toString() ?? null,
+  asOfBlock: asOf?.blockNumber.toString() ?? null,
+});
+
+const BLOCK_TIMESTAMP_CACHE_SIZE = 10_000;
+const blockTimestampCache = new Map<string, bigint>();
+
+// Timestamps of finalized blocks never change, so they are cached (oldest entries evicted first); later blocks are
+// read from the node every time, since a reorg may replace them.
+const getBlockTimestamp = async (client: PublicClient, chain: string, blockNumber: bigint) => {
+  const key = `${chain}:${blockNumber}`;
+  const cached = blockTimestampCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const { timestamp } = await client.getBlock({ blockNumber });
+  const finalizedBlock = await getFinalizedBlock(chain);
+  if (finalizedBlock !== null && blockNumber <= finalizedBlock) {
+    if (blockTimestampCache.size >= BLOCK_TIMESTAMP_CACHE_SIZE) {
+      blockTimestampCache.delete(blockTimestampCache.keys().next().value!);
+    }
+    blockTimestampCache.set(key, timestamp);
+  }
+  return timestamp;
+};
+
+// The indexed events closest to `timestamp` on either side: the last one mined at or before it and the first one
+// mined after it.
+const indexedBlocksAround = async (chainId: number, timestamp: bigint) => {
+  const columns = { blockNumber: schema.marketStream.blockNumber, blockTimestamp: schema.marketStream.blockTimestamp };
+  const [before] = await db
+    .select(columns)
+    .from(schema.marketStream)
+    .where(and(eq(schema.marketStream.chainId, chainId), lte(schema.marketStream.blockTimestamp, timestamp)))
+    .orderBy(desc(schema.marketStream.blockTimestamp), desc(schema.marketStream.blockNumber))
+    .limit(1);
+  const [after] = await db
+    .select(columns)
+    .from(schema.marketStream)
+    .where(and(eq(schema.marketStream.chainId, chainId), gt(schema.marketStream.blockTimestamp, timestamp)))
+    .orderBy(asc(schema.marketStream.blockTimestamp), asc(schema.marketStream.blockNumber))
+    .limit(1);
+  return { before: toBlockRef(before), after: toBlockRef(after) };
+};
+
+// Bisects for the last block mined at or before `timestamp`; block timestamps never decrease along the chain. The
+// indexed events around `timestamp` narrow the search to the blocks between two of them, so most lookups read only a
+// few blocks from the node.
+const findBlockAtTimestamp = async (
+  client: PublicClient,
+  deployment: Deployment,
+  timestamp: bigint,
+  head: BlockRef,
+): Promise<BlockRef | null> => {
+  if (timestamp >= head.blockTimestamp) return head;
+
+  const { before, after } = await indexedBlocksAround(deployment.chainId, timestamp);
+  const genesisTimestamp = before ? null : await getBlockTimestamp(client, deployment.chain, 0n);
+  if (genesisTimestamp !== null && genesisTimestamp > timestamp) return null;
+
+  let found: BlockRef = before ?? { blockNumber: 0n, blockTimestamp: genesisTimestamp! };
+  let high = after && after.blockNumber < head.blockNumber ? after.blockNumber : head.blockNumber;
+  while (high - found.blockNumber > 1n) {
+    const middle = (found.blockNumber + high) / 2n;
+    const blockTimestamp = await getBlockTimestamp(client, deployment.chain, middle);
+    if (blockTimestamp <= timestamp) {
+      found = { blockNumber: middle, blockTimestamp };
+    } else {
+      high = middle;
+    }
+  }
+  return found;
+};
+
+type AsOfQuery = { minConfirmations?: string; atBlock?: string; atTimestamp?: string };
+
+// Reads can be pinned to a past block in one of three ways:
+// - `minConfirmations=N` pins to block head - N + 1, so only records with at least N confirmations (counting the
+//   head itself as one) contribute. N=1 is the head, i.e. the default.
+// - `atBlock=B` pins to block B, which must not be ahead of the indexed head.
+// - `atTimestamp=T` pins to the last block mined at or before unix time T.
+const resolveAsOf = async (
+  query: AsOfQuery,
+  head: BlockRef | null,
+  deployment: Deployment,
+): Promise<{ asOf: BlockRef | null } | { error: string; status: 400 | 503 }> => {
+  const given = (["minConfirmations", "atBlock", "atTimestamp"] as const).filter((key) => query[key] !== undefined);
+  if (given.length === 0) return { asOf: null };
+  if (given.length > 1) {
+    return { error: "Use only one of minConfirmations, atBlock and atTimestamp", status: 400 };
+  }
+
+  const [param] = given as [keyof AsOfQuery];
+  const value = query[param]!;
+  if (!/^\d+$/.test(value)) {
+    return { error: `${param} must be a non-negative integer`, status: 400 };
+  }
+  if (param === "minConfirmations" && BigInt(value) === 0n) {
+    return { error: "minConfirmations must be a positive integer", status: 400 };
+  }
+  if (!head) {
+    return { error: "Chain head not indexed", status: 503 };
+  }
+  if (param === "minConfirmations" && BigInt(value) === 1n) {
+    return { asOf: null };
+  }
+
+  const client = chainClient(deployment.chain);
+  if (!client) {
+    return { error: "Chain client unavailable", status: 503 };
+  }
+
+  if (param === "atTimestamp") {
+    let asOf: BlockRef | null;
+    try {
+      asOf = await findBlockAtTimestamp(client, deployment, BigInt(value), head);
+    } catch (error) {
+      console.warn("Failed to find the block at a timestamp:", error);
+      return { error: "Could not read blocks from the chain", status: 503 };
+    }
+    if (!asOf) {
+      return { error: "atTimestamp precedes the first block of the chain", status: 400 };
+    }
+    return { asOf };
+  }
+
+  const blockNumber = param === "atBlock" ? BigInt(value) : head.blockNumber - BigInt(value) + 1n;
+  if (blockNumber < 0n) {
+    return { error: `minConfirmations exceeds the indexed head (${head.blockNumber})`, status: 400 };
+  }
+  if (blockNumber > head.blockNumber) {
+    return { error: `atBlock is ahead of the indexed head (${head.blockNumber})`, status: 400 };
+  }
+  if (blockNumber === head.blockNumber) {
+    return { asOf: head };
+  }
+
+  try {
+    return { asOf: { blockNumber, blockTimestamp: await getBlockTimestamp(client, deployment.chain, blockNumber) } };
+  } catch (error) {
+    console.warn("Failed to read a pinned block:", error);
+    return { error: "Could not read blocks from the chain", status: 503 };
+  }
+};
+
+const isExpired = (expirationEpoch: bigint, headTimestamp: bigint | undefined) =>
+  headTimestamp !== undefined && expirationEpoch !== 0n && expirationEpoch < headTimestamp;
+
+const deriveOrderState = (
+  row: { state: string; active: boolean; expirationEpoch: bigint },
+  headTimestamp: bigint | undefined,
+) => {
+  if (row.active && isExpired(row.expirationEpoch, headTimestamp)) {
+    return "expired";
+  }
+  return row.state;
+};
+
+const loadActiveOrders = async (marketId: string, headTimestamp?: bigint): Promise<OrderRow[]> => {
+  const rows = await db
+    .select({
+      id: schema.orders.id,
+      owner: schema.orders.owner,
+      position: schema.orders.position,
+      price: schema.orders.price,
+      quantity: schema.orders.quantity,
+      filled: schema.orders.filled,
+      updatedBlock: schema.orders.updatedBlock,
+    })
+    .from(schema.orders)
+    .where(
+      and(
+        eq(schema.orders.marketId, marketId),
+        eq(schema.orders.active, true),
+        headTimestamp === undefined
+          ? undefined
+          : or(eq(schema.orders.expirationEpoch, 0n), gte(schema.orders.expirationEpoch, headTimestamp)),
+      ),
+    );
+
+  return rows
+    .map((row) => ({
+      id: row.id,
+      owner: row.owner.toLowerCase() as Address,
+      position: row.position as StrictOutcome,
+      price: normalizeBigInt(row.price),
+      quantity: normalizeBigInt(row.quantity),
+      filled: normalizeBigInt(row.filled),
+      updatedBlock: normalizeBigInt(row.updatedBlock),
+    }))
+    .filter((row) => (row.position === "Yes" || row.position === "No") && row.quantity > row.filled);
+};
+
+// Rebuilds the resting orders of a market as of a past block from the placement, fill and cancellation history.
+// Expiry is judged against the timestamp of that block, as fillOrder would have.
+const loadOrdersAtBlock = async (marketId: string, asOf: BlockRef): Promise<OrderRow[]> => {
+  const cancelled = db
+    .select({ orderId: schema.orderEvents.orderId })
+    .from(schema.orderEvents)
+    .where(
+      and(
+        eq(schema.orderEvents.orderId, schema.orders.id),
+        eq(schema.orderEvents.kind, "cancelled"),
+        lte(schema.orderEvents.blockNumber, asOf.blockNumber),
+      ),
+    );
+
+  const rows = await db
+    .select({
+      id: schema.orders.id,
+      owner: schema.orders.owner,
+      position: schema.orders.position,
+      price: schema.orders.price,
+      quantity: schema.orders.quantity,
+      createdBlock: schema.orders.createdBlock,
+      filled: sql<string>`coalesce(sum(${schema.fills.quantity}), 0)`,
+      lastFillBlock: sql<string | null>`max(${schema.fills.blockNumber})`,
+    })
+    .from(schema.orders)
+    .leftJoin(
+      schema.fills,
+      and(eq(schema.fills.orderId, schema.orders.id), lte(schema.fills.blockNumber, asOf.blockNumber)),
+    )
+    .where(
+      and(
+        eq(schema.orders.marketId, marketId),
+        lte(schema.orders.createdBlock, asOf.blockNumber),
+        notExists(cancelled),
+        or(eq(schema.orders.expirationEpoch, 0n), gte(schema.orders.expirationEpoch, asOf.blockTimestamp)),
+      ),
+    )
+    .groupBy(schema.orders.id);
+
+  return rows
+    .map((row) => {
+      const createdBlock = normalizeBigInt(row.createdBlock);
+      const lastFillBlock = row.lastFillBlock === null ? null : normalizeBigInt(row.lastFillBlock);
+      return {
+        id: row.id,
+        owner: row.owner.toLowerCase() as Address,
+        position: row.position as StrictOutcome,
+        price: normalizeBigInt(row.price),
+        quantity: normalizeBigInt(row.quantity),
+        filled: normalizeBigInt(row.filled),
+        updatedBlock: lastFillBlock !== null && lastFillBlock > createdBlock ? lastFillBlock : createdBlock,
+      };
+    })
+    .filter((row) => (row.position === "Yes" || row.position === "No") && row.quantity > row.filled);
+};
+
+const laterBlock = (current: BlockRef, blockNumber: unknown, blockTimestamp: unknown): BlockRef => {
+  if (blockNumber === null || blockNumber === undefined) return current;
+  const candidate = normalizeBigInt(blockNumber);
+  return candidate > current.blockNumber
+    ? { blockNumber: candidate, blockTimestamp: normalizeBigInt(blockTimestamp) }
+    : current;
+};
+
+// Market state as of a past block, replayed from the lifecycle history, fills and payout claims; null when the
+// market did not exist yet. Volume counts every filled share and claims release open interest, as in the indexer.
+const loadMarketAtBlock = async (marketId: string, asOf: BlockRef) => {
+  const [events, trading, claims] = await Promise.all([
+    db
+      .select({
+        eventName: schema.marketEvents.eventName,
+        newStatus: schema.marketEvents.newStatus,
+        outcome: schema.marketEvents.outcome,
+        resolutionUri: schema.marketEvents.resolutionUri,
+        evidenceUri: schema.marketEvents.evidenceUri,
+        blockNumber: schema.marketEvents.blockNumber,
+        blockTimestamp: schema.marketEvents.blockTimestamp,
+      })
+      .from(schema.marketEvents)
+      .where(and(eq(schema.marketEvents.marketId, marketId), lte(schema.marketEvents.blockNumber, asOf.blockNumber)))
+      .orderBy(asc(schema.marketEvents.blockNumber), asc(schema.marketEvents.id)),
+    db
+      .select({
+        volume: sql<string>`coalesce(sum(${schema.fills.quantity}), 0)`,
+        lastTradeTimestamp: sql<string | null>`max(${schema.fills.blockTimestamp})`,
+        blockNumber: sql<string | null>`max(${schema.fills.blockNumber})`,
+      })
+      .from(schema.fills)
+      .where(and(eq(schema.fills.marketId, marketId), lte(schema.fills.blockNumber, asOf.blockNumber))),
+    db
+      .select({
+        claimed: sql<string>`coalesce(sum(${schema.payouts.grossAmount}), 0)`,
+        fees: sql<string>`coalesce(sum(${schema.payouts.fee}), 0)`,
+        blockNumber: sql<string | null>`max(${schema.payouts.blockNumber})`,
+        blockTimestamp: sql<string | null>`max(${schema.payouts.blockTimestamp})`,
+      })
+      .from(schema.payouts)
+      .where(and(eq(schema.payouts.marketId, marketId), lte(schema.payouts.blockNumber, asOf.blockNumber))),
+  ]);
+
+  if (events.length === 0) return null;
+
+  let status = "Active";
+  let outcome = "Undefined";
+  let disputeActive = false;
+  let resolutionUri: string | null = null;
+  let evidenceUri: string | null = null;
+  let updated: BlockRef = { blockNumber: 0n, blockTimestamp: 0n };
+  for (const event of events) {
+    status = event.newStatus;
+    outcome = event.outcome ?? outcome;
+    if (event.eventName === "MarketDisputed") disputeActive = true;
+    if (event.eventName === "MarketResolved" || event.eventName === "MarketFinalized") disputeActive = false;
+    if (event.eventName === "MarketResolved") {
+      resolutionUri = event.resolutionUri;
+      evidenceUri = event.evidenceUri;
+    }
+    updated = laterBlock(updated, event.blockNumber, event.blockTimestamp);
+  }
+
+  const volume = normalizeBigInt(trading[0]?.volume ?? 0n);
+  const claimed = normalizeBigInt(claims[0]?.claimed ?? 0n);
+  const lastTrade = trading[0]?.lastTradeTimestamp ?? null;
+  updated = laterBlock(updated, trading[0]?.blockNumber, lastTrade);
+  updated = laterBlock(updated, claims[0]?.blockNumber, claims[0]?.blockTimestamp);
+
+  return {
+    status,
+    outcome,
+    disputeActive,
+    resolutionUri,
+    evidenceUri,
+    totalCollateral: volume,
+    openInterest: volume > claimed ? volume - claimed : 0n,
+    realizedFees: normalizeBigInt(claims[0]?.fees ?? 0n),
+    lastTradeTimestamp: lastTrade === null ? null : normalizeBigInt(lastTrade),
+    updatedBlock: updated.blockNumber,
+    updatedTimestamp: updated.blockTimestamp,
+  };
+};
+
+// Resolved markets mark at the declared outcome; live markets at the Yes mid (or the one-sided best quote).
+const markYesPrice = async (
+  market: { id: string; outcome: string },
+  headTimestamp?: bigint,
+  asOf: BlockRef | null = null,
+): Promise<bigint | null> => {
+  if (market.outcome === "Yes") return PRICE_SCALE;
+  if (market.outcome === "No") return 0n;
+
+  const orders = asOf ? await loadOrdersAtBlock(market.id, asOf) : await loadActiveOrders(market.id, headTimestamp);
+  let bestBid: bigint | null = null;
+  let bestAsk: bigint | null = null;
+  for (const order of orders) {
+    if (order.position === "Yes" && (bestBid === null || order.price > bestBid)) bestBid = order.price;
+    if (order.position === "No" && (bestAsk === null || order.price < bestAsk)) bestAsk = order.price;
+  }
+
+  if (bestBid !== null && bestAsk !== null) return (bestBid + bestAsk) / 2n;
+  return bestBid ?? bestAsk;
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const parseLimit = (value: string | undefined): number | null => {
+  const limit = value === undefined ? DEFAULT_LIMIT : Number(value);
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LIMIT) return null;
+  return limit;
+};
+
+const settlementColumns = {
+  id: schema.markets.id,
+  chainId: schema.markets.chainId,
+  contract: schema.markets.contract,
+  onchainId: schema.markets.onchainId,
+  status: schema.markets.status,
+  outcome: schema.markets.outcome,
+  disputeActive: schema.markets.disputeActive,
+  resolvedAt: schema.markets.resolvedAt,
+  resolvedAtOverridden: schema.markets.resolvedAtOverridden,
+  disputeDeadline: schema.markets.disputeDeadline,
+};
+
+const formatSettlement = (
+  row: {
+    id: string;
+    chainId: number;
+    contract: string;
+    onchainId: string;
+    status: string;
+    outcome: string;
+    disputeActive: boolean;
+    resolvedAt: bigint | null;
+    resolvedAtOverridden: boolean | null;
+    disputeDeadline: bigint | null;
+  },
+  headTimestamp: bigint,
+) => {
+  const deadline = row.disputeDeadline === null ? null : normalizeBigInt(row.disputeDeadline);
+  return {
+    marketId: row.onchainId,
+    deployment: deploymentNameOf(row),
+    chainId: row.chainId,
+    status: row.status,
+    outcome: row.outcome,
+    disputeActive: Boolean(row.disputeActive),
+    resolvedAt: row.resolvedAt === null ? null : normalizeBigInt(row.resolvedAt).toString(),
+    resolvedAtOverridden: Boolean(row.resolvedAtOverridden),
+    disputeDeadline: deadline?.toString() ?? null,
+    secondsRemaining: deadline === null || deadline <= headTimestamp ? "0" : (deadline - headTimestamp).toString(),
+  };
+};
+
+type MetadataUriRow = typeof schema.metadataUris.$inferSelect;
+
+// The metadata worker (bots/metadata) creates offchain.metadata_documents on its first start; until it exists every
+// recorded document is reported `pending`. While missing, the table is looked for again at most once per
+// METADATA_STORE_CHECK_MS.
+const METADATA_STORE_CHECK_MS = 30_000;
+let metadataStorePresent = false;
+let lastMetadataStoreCheck = 0;
+
+const hasMetadataStore = async () => {
+  if (metadataStorePresent || Date.now() - lastMetadataStoreCheck < METADATA_STORE_CHECK_MS) {
+    return metadataStorePresent;
+  }
+  lastMetadataStoreCheck = Date.now();
+  const result = await db.execute(sql`select to_regclass('offchain.metadata_documents') is not null as present`);
+  metadataStorePresent = Boolean(result.rows[0]?.present);
+  return metadataStorePresent;
+};
+
+const loadMetadataDocuments = async (uris: string[]): Promise<Map<string, MetadataDocumentRow>> => {
+  if (uris.length === 0 || !(await hasMetadataStore())) return new Map();
+  const rows = await db.select().from(metadataDocuments).where(inArray(metadataDocuments.uri, uris));
+  return new Map(rows.map((row) => [row.uri, row]));
+};
+
+// URIs of the stored question documents whose title matches a web-style search: words are stemmed and all required,
+// "quoted phrases" match in order, and -word excludes.
+const questionTitlesMatching = (search: string) =>
+  db
+    .select({ uri: metadataDocuments.uri })
+    .from(metadataDocuments)
+    .where(sql`${titleSearchVector} @@ websearch_to_tsquery('english', ${search})`);
+
+// `pending` until the metadata worker has fetched the document.
+const formatMetadata = (row: MetadataUriRow | null | undefined, document: MetadataDocumentRow | undefined) => {
+  if (!row) return null;
+  return {
+    uri: row.uri,
+    kind: row.kind,
+    status: document?.status ?? "pending",
+    title: document?.title ?? null,
+    description: document?.description ?? null,
+    category: document?.category ?? null,
+    tags: document?.tags ?? [],
+    resolutionCriteria: document?.resolutionCriteria ?? null,
+    contentType: document?.contentType ?? null,
+    document: document?.document ?? null,
+    errors: document?.errors ?? [],
+    firstSeenBlock: normalizeBigInt(row.firstSeenBlock).toString(),
+    fetchedAt: document ? String(document.fetchedAt) : null,
+  };
+};
+
+const formatMarket = (row: typeof schema.markets.$inferSelect) => ({
+  marketId: row.onchainId,
+  deployment: deploymentNameOf(row),
+  chainId: row.chainId,
+  contract: row.contract,
+  status: row.status,
+  outcome: row.outcome,
+  creator: row.creator,
+  openEpoch: normalizeBigInt(row.openEpoch).toString(),
+  closeEpoch: normalizeBigInt(row.closeEpoch).toString(),
+  feeBps: normalizeBigInt(row.feeBps).toString(),
+  questionUri: row.questionUri,
+  oracleUri: row.oracleUri,
+  resolutionUri: row.resolutionUri,
+  evidenceUri: row.evidenceUri,
+  volume: normalizeBigInt(row.totalCollateral).toString(),
+  openInterest: normalizeBigInt(row.openInterest).toString(),
+  lastTradeTimestamp: row.lastTradeTimestamp === null ? null : normalizeBigInt(row.lastTradeTimestamp).toString(),
+  disputeActive: Boolean(row.disputeActive),
+  createdBlock: normalizeBigInt(row.createdBlock).toString(),
+  createdTimestamp: normalizeBigInt(row.createdTimestamp).toString(),
+  updatedTimestamp: normalizeBigInt(row.updatedTimestamp).toString(),
+});
+
+const isApprovalRequired = async (deployment: Deployment) => {
+  const rows = await db
+    .select({ approvalRequired: schema.tradingConfig.approvalRequired })
+    .from(schema.tradingConfig)
+    .where(eq(schema.tradingConfig.id, scopeKey(deployment)))
+    .limit(1);
+
+  return Boolean(rows[0]?.approvalRequired);
+};
+
+const loadApprovedTraders = async (deployment: Deployment, traders: Address[]): Promise<Set<string>> => {
+  if (traders.length === 0) return new Set();
+
+  const rows = await db
+    .select({ trader: schema.traderApprovals.trader })
+    .from(schema.traderApprovals)
+    .where(
+      and(
+        inDeployments(schema.traderApprovals, [deployment]),
+        inArray(schema.traderApprovals.trader, traders),
+        eq(schema.traderApprovals.approved, true),
+      ),
+    );
+
+  return new Set(rows.map((row) => row.trader.toLowerCase()));
+};
+
+const parseBookOptions = (query: {
+  depth?: string;
+  side?: string;
+  view?: string;
+}): BookOptions | { error: string } => {
+  let depth: number | undefined;
+  if (query.depth !== undefined) {
+    depth = Number(query.depth);
+    if (!Number.isInteger(depth) || depth <= 0) {
+      return { error: "depth must be a positive integer" };
+    }
+  }
+
+  const side = (query.side ?? "both").toLowerCase();
+  if (side !== "yes" && side !== "no" && side !== "both") {
+    return { error: "side must be 'yes', 'no' or 'both'" };
+  }
+
+  const view = (query.view ?? "raw").toLowerCase();
+  if (view !== "raw" && view !== "yes" && view !== "no") {
+    return { error: "view must be 'raw', 'yes' or 'no'" };
+  }
+
+  return { depth, side, view };
+};
+
+const buildLevels = (
+  rows: OrderRow[],
+  {
+    ascending,
+    depth,
+    headBlock,
+    toPrice = (price) => price,
+  }: {
+    ascending: boolean;
+    depth?: number;
+    headBlock?: bigint;
+    toPrice?: (price: bigint) => bigint;
+  },
+): BookLevel[] => {
+  const levels = new Map<bigint, { remaining: bigint; orders: number; updatedBlock: bigint }>();
+  for (const row of rows) {
+    const remaining = row.quantity - row.filled;
+    if (remaining <= 0n) continue;
+    const price = toPrice(row.price);
+    const level = levels.get(price);
+    if (level) {
+      level.remaining += remaining;
+      level.orders += 1;
+      if (row.updatedBlock > level.updatedBlock) level.updatedBlock = row.updatedBlock;
+    } else {
+      levels.set(price, { remaining, orders: 1, updatedBlock: row.updatedBlock });
+    }
+  }
+
+  const prices = [...levels.keys()].sort((a, b) => {
+    if (a === b) return 0;
+    if (ascending) {
+      return a < b ? -1 : 1;
+    }
+    return a > b ? -1 : 1;
+  });
+
+  let cumulative = 0n;
+  return prices.slice(0, depth).map((price) => {
+    const level = levels.get(price)!;
+    cumulative += level.remaining;
+    return {
+      price: price.toString(),
+      remaining: level.remaining.toString(),
+      orders: level.orders,
+      cumulative: cumulative.toString(),
+      // A level is only as settled as its most recently changed order.
+      updatedBlock: level.updatedBlock.toString(),
+      confirmations: confirmationsAt(level.updatedBlock, headBlock),
+    };
+  });
+};
+
+// Order prices are Yes-denominated for both makers: a No maker at `p` offers Yes at `p`.
+// The `yes`/`no` views quote bids and asks in that outcome's price.
+// With `asOf`, the book is rebuilt as it stood at that block instead of read from the live order state.
+const buildBook = async (
+  marketId: string,
+  { depth, side, view }: BookOptions,
+  head: BlockRef | null,
+  asOf: BlockRef | null = null,
+) => {
+  const orders = asOf
+    ? await loadOrdersAtBlock(marketId, asOf)
+    : await loadActiveOrders(marketId, head?.blockTimestamp);
+  const headBlock = head?.blockNumber;
+
+  const yesOrders = side === "no" ? [] : orders.filter((order) => order.position === "Yes");
+  const noOrders = side === "yes" ? [] : orders.filter((order) => order.position === "No");
+
+  if (view === "raw") {
+    return {
+      yes: buildLevels(yesOrders, { ascending: false, depth, headBlock }),
+      no: buildLevels(noOrders, { ascending: true, depth, headBlock }),
+    };
+  }
+
+  if (view === "yes") {
+    return {
+      bids: buildLevels(yesOrders, { ascending: false, depth, headBlock }),
+      asks: buildLevels(noOrders, { ascending: true, depth, headBlock }),
+    };
+  }
+
+  const toNoPrice = (price: bigint) => PRICE_SCALE - price;
+  return {
+    bids: buildLevels(noOrders, { ascending: false, depth, headBlock, toPrice: toNoPrice }),
+    asks: buildLevels(yesOrders, { ascending: true, depth, headBlock, toPrice: toNoPrice }),
+  };
+};
+
+app.get("/markets/:marketId/book", async (c) => {
+  const marketId = c.req.param("marketId");
+  if (!marketId) {
+    return c.json({ error: "marketId is required" }, 400);
+  }
+
+  const options = parseBookOptions(c.req.query());
+  if ("error" in options) {
+    return c.json({ error: options.error }, 400);
+  }
+
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+  const marketKey = scopedId(deployment, marketId);
+
+  const market = await getMarketSummary(marketKey);
+  if (!market) {
+    return c.json({ error: "Market not indexed" }, 404);
+  }
+
+  const [head, finalizedBlock] = await Promise.all([
+    getIndexedHead(deployment.chainId),
+    getFinalizedBlock(deployment.chain),
+  ]);
+  const pinned = await resolveAsOf(c.req.query(), head, deployment);
+  if ("error" in pinned) {
+    return c.json({ error: pinned.error }, pinned.status);
+  }
+
+  const state = pinned.asOf ? await loadMarketAtBlock(marketKey, pinned.asOf) : liveMarketState(market);
+  if (!state) {
+    return c.json({ error: "Market not created by the requested block" }, 404);
+  }
+
+  const book = await buildBook(marketKey, options, head, pinned.asOf);
+
+  return c.json({
+    marketId,
+    deployment: deployment.name,
+    view: options.view,
+    status: state.status,
+    outcome: state.outcome,
+    feeBps: normalizeBigInt(market.feeBps).toString(),
+    disputeActive: state.disputeActive,
+    totalCollateral: state.totalCollateral.toString(),
+    updatedBlock: state.updatedBlock.toString(),
+    updatedTimestamp: state.updatedTimestamp.toString(),
+    confirmations: confirmationsAt(state.updatedBlock, head?.blockNumber),
+    finality: formatFinality(head, finalizedBlock, pinned.asOf),
+    ...book,
+  });
+});
+
+app.get("/markets/:marketId/top-of-book", async (c) => {
+  const marketId = c.req.param("marketId");
+  if (!marketId) {
+    return c.json({ error: "marketId is required" }, 400);
+  }
+
+  const options = parseBookOptions(c.req.query());
+  if ("error" in options) {
+    return c.json({ error: options.error }, 400);
+  }
+
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+  const marketKey = scopedId(deployment, marketId);
+
+  const market = await getMarketSummary(marketKey);
+  if (!market) {
+    return c.json({ error: "Market not indexed" }, 404);
+  }
+
+  const [head, finalizedBlock] = await Promise.all([
+    getIndexedHead(deployment.chainId),
+    getFinalizedBlock(deployment.chain),
+  ]);
+  const pinned = await resolveAsOf(c.req.query(), head, deployment);
+  if ("error" in pinned) {
+    return c.json({ error: pinned.error }, pinned.status);
+  }
+
+  const state = pinned.asOf ? await loadMarketAtBlock(marketKey, pinned.asOf) : liveMarketState(market);
+  if (!state) {
+    return c.json({ error: "Market not created by the requested block" }, 404);
+  }
+
+  const book = await buildBook(marketKey, { ...options, depth: 1 }, head, pinned.asOf);
+  const top = Object.fromEntries(
+    Object.entries(book).map(([key, levels]) => [key, levels[0] ?? null]),
+  );
+
+  return c.json({
+    marketId,
+    deployment: deployment.name,
+    view: options.view,
+    ...top,
+    updatedBlock: state.updatedBlock.toString(),
+    updatedTimestamp: state.updatedTimestamp.toString(),
+    finality: formatFinality(head, finalizedBlock, pinned.asOf),
+  });
+});
+
+const STREAM_POLL_INTERVAL_MS = 500;
+const STREAM_HEARTBEAT_MS = 15_000;
+const STREAM_BATCH_SIZE = 200;
+const MAX_STREAM_REPLAY = 1_000n;
+
+const getStreamSequence = async (marketId: string): Promise<bigint | null> => {
+  const rows = await db
+    .select({ streamSequence: schema.markets.streamSequence })
+    .from(schema.markets)
+    .where(eq(schema.markets.id, marketId))
+    .limit(1);
+
+  return rows[0] ? normalizeBigInt(rows[0].streamSequence) : null;
+};
+
+// SSE ids pair the sequence with a prefix of the hash of the block that produced the message. Ponder replays the new
+// branch right after a reorg rolls back, so the sequence alone can climb back past a subscriber's position before it
+// is polled; a changed id at the subscriber's sequence is what reveals that its history was orphaned.
+const streamId = (sequence: bigint, blockHash: string) => `${sequence}:${blockHash.slice(2, 18)}`;
+
+// The id of the message at `sequence`, "0" before the first message, or null once a reorg removed it.
+const getStreamId = async (marketId: string, sequence: bigint): Promise<string | null> => {
+  if (sequence === 0n) return "0";
+  const rows = await db
+    .select({ blockHash: schema.marketStream.blockHash })
+    .from(schema.marketStream)
+    .where(eq(schema.marketStream.id, `${marketId}:${sequence}`))
+    .limit(1);
+
+  return rows[0] ? streamId(sequence, rows[0].blockHash) : null;
+};
+
+// The book is read between two sequence reads; if messages landed in between, it is rebuilt so the snapshot
+// matches the sequence it is tagged with.
+const loadStreamSnapshot = async (deployment: Deployment, marketId: string) => {
+  const marketKey = scopedId(deployment, marketId);
+  for (let attempt = 1; ; attempt += 1) {
+    const market = await getMarketSummary(marketKey);
+    if (!market) return null;
+
+    const sequence = normalizeBigInt(market.streamSequence);
+    const head = await getIndexedHead(deployment.chainId);
+    const book = await buildBook(marketKey, { side: "both", view: "raw" }, head);
+    const id = await getStreamId(marketKey, sequence);
+
+    if (((await getStreamSequence(marketKey)) === sequence && id !== null) || attempt === 3) {
+      return {
+        id: id ?? sequence.toString(),
+        marketId,
+        deployment: deployment.name,
+        sequence: sequence.toString(),
+        status: market.status,
+        outcome: market.outcome,
+        disputeActive: Boolean(market.disputeActive),
+        book,
+        headBlock: head?.blockNumber.toString() ?? null,
+        headTimestamp: head?.blockTimestamp.toString() ?? null,
+      };
+    }
+  }
+};
+
+// Server-Sent Events feed for one market. Every message carries `<sequence>:<block hash prefix>` as its SSE id; a
+// `snapshot` (raw book, status) is sent on subscribe, and again whenever the client cannot be caught up by replay
+// (unknown `after`/Last-Event-ID, too far behind, or a reorg replaced the message at its sequence). Book deltas are
+// signed changes to raw book levels.
+app.get("/markets/:marketId/stream", async (c) => {
+  const marketId = c.req.param("marketId");
+
+  const resumeFrom = c.req.query("after") ?? c.req.header("Last-Event-ID");
+  if (resumeFrom !== undefined && !/^\d+(:[0-9a-f]{16})?$/.test(resumeFrom)) {
+    return c.json({ error: "after must be a stream message id" }, 400);
+  }
+
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+  const marketKey = scopedId(deployment, marketId);
+
+  const current = await getStreamSequence(marketKey);
+  if (current === null) {
+    return c.json({ error: "Market not indexed" }, 404);
+  }
+
+  return streamSSE(c, async (stream) => {
+    let closed = false;
+    stream.onAbort(() => {
+      closed = true;
+    });
+
+    // The id last sent; `sequence` is its sequence.
+    let lastId: string | null = null;
+    const sendSnapshot = async () => {
+      const loaded = await loadStreamSnapshot(deployment, marketId);
+      if (!loaded) return null;
+      const { id, ...snapshot } = loaded;
+      await stream.writeSSE({ event: "snapshot", id, data: JSON.stringify(snapshot) });
+      lastId = id;
+      return BigInt(snapshot.sequence);
+    };
+
+    let sequence = resumeFrom === undefined ? null : BigInt(resumeFrom.split(":")[0]!);
+    if (
+      sequence === null ||
+      sequence > current ||
+      current - sequence > MAX_STREAM_REPLAY ||
+      (await getStreamId(marketKey, sequence)) !== resumeFrom
+    ) {
+      sequence = await sendSnapshot();
+    } else {
+      lastId = resumeFrom;
+    }
+
+    let idleMs = 0;
+    while (!closed && sequence !== null) {
+      const latest = await getStreamSequence(marketKey);
+      const rows =
+        latest === null || latest <= sequence
+          ? []
+          : await db
+              .select()
+              .from(schema.marketStream)
+              .where(and(eq(schema.marketStream.marketId, marketKey), gt(schema.marketStream.sequence, sequence)))
+              .orderBy(asc(schema.marketStream.sequence))
+              .limit(STREAM_BATCH_SIZE);
+
+      // Checked after the read, so rows from a branch that replaced the last message sent are never appended to it.
+      if (latest === null || latest < sequence || (await getStreamId(marketKey, sequence)) !== lastId) {
+        sequence = await sendSnapshot();
+        continue;
+      }
+
+      for (const row of rows) {
+        const rowSequence = normalizeBigInt(row.sequence);
+        const id = streamId(rowSequence, row.blockHash);
+        await stream.writeSSE({
+          event: row.kind,
+          id,
+          data: JSON.stringify({
+            marketId,
+            sequence: rowSequence.toString(),
+            kind: row.kind,
+            blockNumber: normalizeBigInt(row.blockNumber).toString(),
+            blockTimestamp: normalizeBigInt(row.blockTimestamp).toString(),
+            transactionHash: row.transactionHash,
+            ...(row.payload as Record<string, unknown>),
+          }),
+        });
+        sequence = rowSequence;
+        lastId = id;
+      }
+
+      if (rows.length > 0) {
+        idleMs = 0;
+        continue;
+      }
+
+      if (idleMs >= STREAM_HEARTBEAT_MS) {
+        await stream.writeSSE({ event: "heartbeat", data: JSON.stringify({ sequence: sequence.toString() }) });
+        idleMs = 0;
+      }
+      await stream.sleep(STREAM_POLL_INTERVAL_MS);
+      idleMs += STREAM_POLL_INTERVAL_MS;
+    }
+  });
+});
+
+app.get("/protocol", async (c) => {
+  const limit = parseLimit(c.req.query("limit"));
+  if (limit === null) {
+    return c.json({ error: `limit must be an integer within [1, ${MAX_LIMIT}]` }, 400);
+  }
+
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+
+  const [configRows, changes] = await Promise.all([
+    db.select().from(schema.tradingConfig).where(eq(schema.tradingConfig.id, scopeKey(deployment))).limit(1),
+    db
+      .select()
+      .from(schema.adminEvents)
+      .where(inDeployments(schema.adminEvents, [deployment]))
+      .orderBy(desc(schema.adminEvents.blockNumber), desc(schema.adminEvents.id))
+      .limit(limit),
+  ]);
+
+  const config = configRows[0];
+  if (!config) {
+    return c.json({ error: "Protocol config not indexed" }, 404);
+  }
+
+  return c.json({
+    deployment: deployment.name,
+    chainId: deployment.chainId,
+    contract: deployment.address,
+    paymentToken: config.paymentToken,
+    creationAgent: config.creationAgent,
+    resolutionAgent: config.resolutionAgent,
+    feeRecipient: config.feeRecipient,
+    approvalAuthority: config.approvalAuthority,
+    approvalRequired: Boolean(config.approvalRequired),
+    disputeWindow: normalizeBigInt(config.disputeWindow).toString(),
+    disputeBond: normalizeBigInt(config.disputeBond).toString(),
+    updatedBlock: normalizeBigInt(config.updatedBlock).toString(),
+    updatedTimestamp: normalizeBigInt(config.updatedTimestamp).toString(),
+    changes: changes.map((change) => ({
+      eventName: change.eventName,
+      field: change.field,
+      subject: change.subject,
+      previousValue: change.previousValue,
+      newValue: change.newValue,
+      blockNumber: normalizeBigInt(change.blockNumber).toString(),
+      blockTimestamp: normalizeBigInt(change.blockTimestamp).toString(),
+      transactionHash: change.transactionHash,
+    })),
+  });
+});
+
+const MARKET_SORTS = ["created", "closeEpoch", "volume", "volume24h", "liquidity", "lastTrade"] as const;
+type MarketSort = (typeof MARKET_SORTS)[number];
+
+const MARKET_OUTCOMES = ["Undefined", "Yes", "No"];
+const MAX_SEARCH_LENGTH = 200;
+const VOLUME_BUCKET = 3_600n;
+const VOLUME_WINDOW_BUCKETS = 24n;
+
+// Cursors pin the sort they were issued for, so a page cannot be continued under a different ordering.
+type MarketCursor = { sort: MarketSort; order: "asc" | "desc"; value: string; id: string };
+
+const encodeCursor = (cursor: MarketCursor) =>
+  Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString("base64url");
+
+const decodeCursor = (raw: string): MarketCursor | null => {
+  try {
+    const [sort, order, value, id] = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as unknown[];
+    if (
+      MARKET_SORTS.includes(sort as MarketSort) &&
+      (order === "asc" || order === "desc") &&
+      typeof value === "string" &&
+      /^\d+$/.test(value) &&
+      typeof id === "string"
+    ) {
+      return { sort: sort as MarketSort, order, value, id };
+    }
+  } catch {
+    // Fall through to the invalid-cursor response.
+  }
+  return null;
+};
+
+const parseEpochBound = (value: string | undefined): bigint | null | undefined => {
+  if (value === undefined) return undefined;
+  return /^\d+$/.test(value) ? BigInt(value) : null;
+};
+
+// Lists markets across every selected deployment with optional filters, title search and keyset pagination.
+// `volume24h` sums the hourly candles of the last 24 buckets up to each chain's indexed head; `liquidity` is the
+// collateral resting in live orders. `q` is a full-text search over the titles of the question documents the metadata
+// worker stored.
+app.get("/markets", async (c) => {
+  const query = c.req.query();
+
+  const selected = selectDeployments(query);
+  if ("error" in selected) {
+    return c.json({ error: selected.error }, 400);
+  }
+
+  const limit = parseLimit(query.limit);
+  if (limit === null) {
+    return c.json({ error: `limit must be an integer within [1, ${MAX_LIMIT}]` }, 400);
+  }
+
+  const sort = (query.sort ?? "created") as MarketSort;
+  if (!MARKET_SORTS.includes(sort)) {
+    return c.json({ error: `sort must be one of ${MARKET_SORTS.join(", ")}` }, 400);
+  }
+
+  const order = query.order ?? (sort === "closeEpoch" ? "asc" : "desc");
+  if (order !== "asc" && order !== "desc") {
+    return c.json({ error: "order must be asc or desc" }, 400);
+  }
+
+  const statuses = query.status?.split(",").filter(Boolean);
+
+  if (query.creator !== undefined && !isAddress(query.creator)) {
+    return c.json({ error: "creator must be an address" }, 400);
+  }
+  const creator = query.creator?.toLowerCase() as Address | undefined;
+
+  if (query.outcome !== undefined && !MARKET_OUTCOMES.includes(query.outcome)) {
+    return c.json({ error: `outcome must be one of ${MARKET_OUTCOMES.join(", ")}` }, 400);
+  }
+
+  if (query.hasDispute !== undefined && query.hasDispute !== "true" && query.hasDispute !== "false") {
+    return c.json({ error: "hasDispute must be true or false" }, 400);
+  }
+
+  const bounds = {
+    opensAfter: parseEpochBound(query.opensAfter),
+    opensBefore: parseEpochBound(query.opensBefore),
+    closesAfter: parseEpochBound(query.closesAfter),
+    closesBefore: parseEpochBound(query.closesBefore),
+  };
+  const invalidBound = Object.entries(bounds).find(([, value]) => value === null);
+  if (invalidBound) {
+    return c.json({ error: `${invalidBound[0]} must be a unix timestamp` }, 400);
+  }
+
+  const search = query.q?.trim();
+  if (search !== undefined && search.length > MAX_SEARCH_LENGTH) {
+    return c.json({ error: `q must be at most ${MAX_SEARCH_LENGTH} characters` }, 400);
+  }
+
+  const cursor = query.cursor === undefined ? undefined : decodeCursor(query.cursor);
+  if (cursor === null || (cursor && (cursor.sort !== sort || cursor.order !== order))) {
+    return c.json({ error: "cursor is invalid for this sort" }, 400);
+  }
+
+  if (search && !(await hasMetadataStore())) {
+    return c.json({ error: "No metadata documents are stored yet; search needs the metadata worker running" }, 503);
+  }
+
+  const heads = await getIndexedHeads(selected);
+  const chainIds = [...new Set(selected.map((deployment) => deployment.chainId))];
+  const wallClock = BigInt(Math.floor(Date.now() / 1000));
+  const volumeSince = (chainId: number) => {
+    const now = heads.get(chainId)?.blockTimestamp ?? wallClock;
+    return (now / VOLUME_BUCKET - (VOLUME_WINDOW_BUCKETS - 1n)) * VOLUME_BUCKET;
+  };
+
+  const recentVolume = db
+    .select({
+      marketId: schema.candles.marketId,
+      volume: sql<string>`sum(${schema.candles.volumeShares})`.as("volume_24h"),
+    })
+    .from(schema.candles)
+    .where(
+      and(
+        eq(schema.candles.interval, "1h"),
+        or(
+          ...chainIds.map((chainId) =>
+            and(eq(schema.candles.chainId, chainId), gte(schema.candles.bucketStart, volumeSince(chainId))),
+          ),
+        ),
+      ),
+    )
+    .groupBy(schema.candles.marketId)
+    .as("recent_volume");
+
+  const restingLiquidity = db
+    .select({
+      marketId: schema.orders.marketId,
+      liquidity: sql<string>`sum(div(
+        case when ${schema.orders.position} = 'Yes' then ${schema.orders.price} else ${PRICE_SCALE} - ${schema.orders.price} end
+          * (${schema.orders.quantity} - ${schema.orders.filled}),
+        ${PRICE_SCALE}
+      ))`.as("liquidity"),
+    })
+    .from(schema.orders)
+    .where(
+      and(
+        eq(schema.orders.active, true),
+        or(
+          ...chainIds.map((chainId) => {
+            const head = heads.get(chainId);
+            return and(
+              eq(schema.orders.chainId, chainId),
+              head === undefined
+                ? undefined
+                : or(eq(schema.orders.expirationEpoch, 0n), gte(schema.orders.expirationEpoch, head.blockTimestamp)),
+            );
+          }),
+        ),
+      ),
+    )
+    .groupBy(schema.orders.marketId)
+    .as("resting_liquidity");
+
+  const sortExpressions: Record<MarketSort, ReturnType<typeof sql>> = {
+    created: sql`${schema.markets.createdBlock}`,
+    closeEpoch: sql`${schema.markets.closeEpoch}`,
+    volume: sql`${schema.markets.totalCollateral}`,
+    volume24h: sql`coalesce(${recentVolume.volume}, 0)`,
+    liquidity: sql`coalesce(${restingLiquidity.liquidity}, 0)`,
+    lastTrade: sql`coalesce(${schema.markets.lastTradeTimestamp}, 0)`,
+  };
+  const sortKey = sortExpressions[sort];
+  const direction = order === "asc" ? asc : desc;
+
+  const rows = await db
+    .select({
+      market: schema.markets,
+      question: schema.metadataUris,
+      volume24h: sql<string>`coalesce(${recentVolume.volume}, 0)`,
+      liquidity: sql<string>`coalesce(${restingLiquidity.liquidity}, 0)`,
+      sortKey: sql<string>`${sortKey}`,
+    })
+    .from(schema.markets)
+    .leftJoin(schema.metadataUris, eq(schema.metadataUris.uri, schema.markets.questionUri))
+    .leftJoin(recentVolume, eq(recentVolume.marketId, schema.markets.id))
+    .leftJoin(restingLiquidity, eq(restingLiquidity.marketId, schema.markets.id))
+    .where(
+      and(
+        inDeployments(schema.markets, selected),
+        statuses && statuses.length > 0 ? inArray(schema.markets.status, statuses) : undefined,
+        creator ? eq(schema.markets.creator, creator) : undefined,
+        query.outcome ? eq(schema.markets.outcome, query.outcome) : undefined,
+        query.hasDispute ? eq(schema.markets.disputeActive, query.hasDispute === "true") : undefined,
+        typeof bounds.opensAfter === "bigint" ? gte(schema.markets.openEpoch, bounds.opensAfter) : undefined,
+        typeof bounds.opensBefore === "bigint" ? lte(schema.markets.openEpoch, bounds.opensBefore) : undefined,
+        typeof bounds.closesAfter === "bigint" ? gte(schema.markets.closeEpoch, bounds.closesAfter) : undefined,
+        typeof bounds.closesBefore === "bigint" ? lte(schema.markets.closeEpoch, bounds.closesBefore) : undefined,
+        search ? inArray(schema.markets.questionUri, questionTitlesMatching(search)) : undefined,
+        cursor
+          ? order === "asc"
+            ? sql`(${sortKey}, ${schema.markets.id}) > (${cursor.value}::numeric, ${cursor.id})`
+            : sql`(${sortKey}, ${schema.markets.id}) < (${cursor.value}::numeric, ${cursor.id})`
+          : undefined,
+      ),
+    )
+    .orderBy(direction(sortKey), direction(schema.markets.id))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const documents = await loadMetadataDocuments(page.map(({ market }) => market.questionUri));
+
+  return c.json({
+    markets: page.map(({ market, question, volume24h, liquidity }) => ({
+      ...formatMarket(market),
+      volume24h: normalizeBigInt(volume24h).toString(),
+      liquidity: normalizeBigInt(liquidity).toString(),
+      metadata: formatMetadata(question, documents.get(market.questionUri)),
+    })),
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor({ sort, order, value: normalizeBigInt(last.sortKey).toString(), id: last.market.id })
+        : null,
+  });
+});
+
+// Settlement windows are judged against each chain's own head; deployments on chains without an indexed head are
+// skipped, and the request fails only when none of the selected chains has one.
+const loadSettlementScope = async (
+  selector: DeploymentSelector,
+): Promise<{ selected: Deployment[]; heads: Map<number, BlockRef> } | { error: string; status: 400 | 503 }> => {
+  const matches = selectDeployments(selector);
+  if ("error" in matches) {
+    return { error: matches.error, status: 400 };
+  }
+
+  const heads = await getIndexedHeads(matches);
+  const selected = matches.filter((deployment) => heads.has(deployment.chainId));
+  if (selected.length === 0) {
+    return { error: "Chain head not indexed", status: 503 };
+  }
+  return { selected, heads };
+};
+
+const formatHeads = (heads: Map<number, BlockRef>) =>
+  [...heads].map(([chainId, head]) => ({
+    chainId,
+    headBlock: head.blockNumber.toString(),
+    headTimestamp: head.blockTimestamp.toString(),
+  }));
+
+// Mirrors finalizeMarket: Resolved (or, with includeDisputed, Disputed) markets whose dispute window has elapsed.
+// By default disputed markets are excluded, matching the `finalizable` flag returned by getMarket.
+app.get("/markets/finalizable", async (c) => {
+  const limit = parseLimit(c.req.query("limit"));
+  if (limit === null) {
+    return c.json({ error: `limit must be an integer within [1, ${MAX_LIMIT}]` }, 400);
+  }
+  const includeDisputed = c.req.query("includeDisputed") === "true";
+
+  const scope = await loadSettlementScope(c.req.query());
+  if ("error" in scope) {
+    return c.json({ error: scope.error }, scope.status);
+  }
+
+  const rows = await db
+    .select(settlementColumns)
+    .from(schema.markets)
+    .where(
+      and(
+        inDeployments(schema.markets, scope.selected),
+        includeDisputed
+          ? inArray(schema.markets.status, ["Resolved", "Disputed"])
+          : eq(schema.markets.status, "Resolved"),
+        or(
+          ...[...scope.heads].map(([chainId, head]) =>
+            and(eq(schema.markets.chainId, chainId), lte(schema.markets.disputeDeadline, head.blockTimestamp)),
+          ),
+        ),
+      ),
+    )
+    .orderBy(asc(schema.markets.disputeDeadline))
+    .limit(limit);
+
+  return c.json({
+    heads: formatHeads(scope.heads),
+    markets: rows.map((row) => formatSettlement(row, scope.heads.get(row.chainId)!.blockTimestamp)),
+  });
+});
+
+// disputeMarket itself accepts disputes until the market is finalized; this lists markets still inside the window.
+app.get("/markets/disputable", async (c) => {
+  const limit = parseLimit(c.req.query("limit"));
+  if (limit === null) {
+    return c.json({ error: `limit must be an integer within [1, ${MAX_LIMIT}]` }, 400);
+  }
+
+  const scope = await loadSettlementScope(c.req.query());
+  if ("error" in scope) {
+    return c.json({ error: scope.error }, scope.status);
+  }
+
+  const rows = await db
+    .select(settlementColumns)
+    .from(schema.markets)
+    .where(
+      and(
+        inDeployments(schema.markets, scope.selected),
+        eq(schema.markets.status, "Resolved"),
+        eq(schema.markets.disputeActive, false),
+        or(
+          ...[...scope.heads].map(([chainId, head]) =>
+            and(eq(schema.markets.chainId, chainId), gt(schema.markets.disputeDeadline, head.blockTimestamp)),
+          ),
+        ),
+      ),
+    )
+    .orderBy(asc(schema.markets.disputeDeadline))
+    .limit(limit);
+
+  return c.json({
+    heads: formatHeads(scope.heads),
+    markets: rows.map((row) => formatSettlement(row, scope.heads.get(row.chainId)!.blockTimestamp)),
+  });
+});
+
+app.get("/markets/:marketId", async (c) => {
+  const marketId = c.req.param("marketId");
+
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+
+  const [market] = await db
+    .select()
+    .from(schema.markets)
+    .where(eq(schema.markets.id, scopedId(deployment, marketId)))
+    .limit(1);
+  if (!market) {
+    return c.json({ error: "Market not indexed" }, 404);
+  }
+
+  const [head, finalizedBlock] = await Promise.all([
+    getIndexedHead(deployment.chainId),
+    getFinalizedBlock(deployment.chain),
+  ]);
+  const pinned = await resolveAsOf(c.req.query(), head, deployment);
+  if ("error" in pinned) {
+    return c.json({ error: pinned.error }, pinned.status);
+  }
+
+  // Static fields come from the live row; a pinned read overlays the state it had at that block.
+  let row = market;
+  if (pinned.asOf) {
+    const historical = await loadMarketAtBlock(market.id, pinned.asOf);
+    if (!historical) {
+      return c.json({ error: "Market not created by the requested block" }, 404);
+    }
+    row = { ...market, ...historical };
+  }
+
+  const uris = [row.questionUri, row.oracleUri, row.resolutionUri, row.evidenceUri].filter(
+    (uri): uri is string => Boolean(uri),
+  );
+  const [recorded, documents] = await Promise.all([
+    db.select().from(schema.metadataUris).where(inArray(schema.metadataUris.uri, uris)),
+    loadMetadataDocuments(uris),
+  ]);
+  const byUri = new Map(recorded.map((document) => [document.uri, document]));
+  const metadataFor = (uri: string) => formatMetadata(byUri.get(uri), documents.get(uri));
+
+  return c.json({
+    ...formatMarket(row),
+    metadata: metadataFor(row.questionUri),
+    oracle: metadataFor(row.oracleUri),
+    resolution: row.resolutionUri ? metadataFor(row.resolutionUri) : null,
+    evidence: row.evidenceUri ? metadataFor(row.evidenceUri) : null,
+    finality: formatFinality(head, finalizedBlock, pinned.asOf),
+  });
+});
+
+app.get("/markets/:marketId/timeline", async (c) => {
+  const marketId = c.req.param("marketId");
+  if (!marketId) {
+    return c.json({ error: "marketId is required" }, 400);
+  }
+
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+  const marketKey = scopedId(deployment, marketId);
+
+  const [events, disputes] = await Promise.all([
+    db
+      .select()
+      .from(schema.marketEvents)
+      .where(eq(schema.marketEvents.marketId, marketKey))
+      .orderBy(asc(schema.marketEvents.blockNumber), asc(schema.marketEvents.id)),
+    db
+      .select()
+      .from(schema.disputes)
+      .where(eq(schema.disputes.marketId, marketKey))
+      .orderBy(asc(schema.disputes.blockNumber), asc(schema.disputes.id)),
+  ]);
+
+  if (events.length === 0) {
+    return c.json({ error: "Market not indexed" }, 404);
+  }
+
+  return c.json({
+    marketId,
+    deployment: deployment.name,
+    events: events.map((event) => ({
+      eventName: event.eventName,
+      previousStatus: event.previousStatus,
+      newStatus: event.newStatus,
+      actor: event.actor,
+      outcome: event.outcome,
+      resolutionUri: event.resolutionUri,
+      evidenceUri: event.evidenceUri,
+      blockNumber: normalizeBigInt(event.blockNumber).toString(),
+      blockTimestamp: normalizeBigInt(event.blockTimestamp).toString(),
+      transactionHash: event.transactionHash,
+    })),
+    disputes: disputes.map((dispute) => ({
+      disputant: dispute.disputant,
+      evidenceUri: dispute.evidenceUri,
+      bondAmount: normalizeBigInt(dispute.bondAmount).toString(),
+      status: dispute.status,
+      openedAt: normalizeBigInt(dispute.openedAt).toString(),
+      closedAt: dispute.closedAt === null ? null : normalizeBigInt(dispute.closedAt).toString(),
+      transactionHash: dispute.transactionHash,
+      closedTransaction: dispute.closedTransaction,
+    })),
+  });
+});
+
+app.get("/markets/:marketId/candles", async (c) => {
+  const marketId = c.req.param("marketId");
+  if (!marketId) {
+    return c.json({ error: "marketId is required" }, 400);
+  }
 
-type StrictOutcome = "Yes" | "No";
+  const interval = (c.req.query("interval") ?? "1h") as CandleInterval;
+  if (!Object.hasOwn(CANDLE_INTERVALS, interval)) {
+    return c.json({ error: `interval must be one of ${Object.keys(CANDLE_INTERVALS).join(", ")}` }, 400);
+  }
+  const seconds = CANDLE_INTERVALS[interval];
 
-const stakeFor = (outcome: StrictOutcome, price: bigint, quantity: bigint): bigint => {
-  if (quantity === 0n) return 0n;
-  if (outcome === "Yes") {
-    return (price * quantity) / PRICE_SCALE;
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
   }
-  return ((PRICE_SCALE - price) * quantity) / PRICE_SCALE;
-};
+  const marketKey = scopedId(deployment, marketId);
 
-const normalizeBigInt = (value: unknown): bigint => {
-  if (typeof value === "bigint") return value;
-  if (typeof value === "number") return BigInt(value);
-  if (typeof value === "string") return value.startsWith("0x") ? BigInt(value) : BigInt(value);
-  throw new Error(`Unable to normalize value ${value}`);
-};
+  const market = await getMarketSummary(marketKey);
+  if (!market) {
+    return c.json({ error: "Market not indexed" }, 404);
+  }
 
-type BookLevel = {
-  price: string;
-  remaining: string;
-  cumulative: string;
-};
+  const fromQuery = c.req.query("from");
+  const toQuery = c.req.query("to");
+  if ((fromQuery !== undefined && !/^\d+$/.test(fromQuery)) || (toQuery !== undefined && !/^\d+$/.test(toQuery))) {
+    return c.json({ error: "from and to must be unix timestamps" }, 400);
+  }
 
-type OrderRow = {
-  id: string;
-  position: StrictOutcome;
-  price: bigint;
-  quantity: bigint;
-  filled: bigint;
-};
+  const head = await getIndexedHead(deployment.chainId);
+  const to = toQuery !== undefined ? BigInt(toQuery) : head?.blockTimestamp ?? BigInt(Math.floor(Date.now() / 1000));
+  const from = fromQuery !== undefined ? BigInt(fromQuery) : to - seconds * DEFAULT_CANDLE_COUNT;
+  if (from > to) {
+    return c.json({ error: "from must not be after to" }, 400);
+  }
 
-const getMarketSummary = async (marketId: string) => {
-  const rows = await db
-    .select({
-      id: schema.markets.id,
-      status: schema.markets.status,
-      outcome: schema.markets.outcome,
-      feeBps: schema.markets.feeBps,
-      disputeActive: schema.markets.disputeActive,
-      totalCollateral: schema.markets.totalCollateral,
-      updatedBlock: schema.markets.updatedBlock,
-      updatedTimestamp: schema.markets.updatedTimestamp,
-    })
-    .from(schema.markets);
+  const firstBucket = from - (from % seconds);
+  const lastBucket = to - (to % seconds);
+  if ((lastBucket - firstBucket) / seconds + 1n > MAX_CANDLE_COUNT) {
+    return c.json({ error: `Range exceeds ${MAX_CANDLE_COUNT} candles` }, 400);
+  }
 
-  return rows.find((row) => row.id === marketId) ?? null;
-};
+  const inSeries = and(eq(schema.candles.marketId, marketKey), eq(schema.candles.interval, interval));
+  const [previous, rows] = await Promise.all([
+    db
+      .select({ close: schema.candles.close })
+      .from(schema.candles)
+      .where(and(inSeries, lt(schema.candles.bucketStart, firstBucket)))
+      .orderBy(desc(schema.candles.bucketStart))
+      .limit(1),
+    db
+      .select()
+      .from(schema.candles)
+      .where(and(inSeries, gte(schema.candles.bucketStart, firstBucket), lte(schema.candles.bucketStart, lastBucket)))
+      .orderBy(asc(schema.candles.bucketStart)),
+  ]);
 
-const loadActiveOrders = async (marketId: string): Promise<OrderRow[]> => {
-  const rows = await db
-    .select({
-      id: schema.orders.id,
-      marketId: schema.orders.marketId,
-      position: schema.orders.position,
-      price: schema.orders.price,
-      quantity: schema.orders.quantity,
-      filled: schema.orders.filled,
-      active: schema.orders.active,
-    })
-    .from(schema.orders);
+  // Quiet buckets repeat the previous close with zero volume; buckets before the first trade are omitted.
+  const byBucket = new Map(rows.map((row) => [normalizeBigInt(row.bucketStart), row]));
+  let lastClose = previous[0] ? normalizeBigInt(previous[0].close) : null;
+  const candleSeries: Array<{
+    bucketStart: string;
+    open: string;
+    high: string;
+    low: string;
+    close: string;
+    volumeShares: string;
+    volumeCollateral: string;
+    trades: number;
+  }> = [];
 
-  return rows
-    .filter((row) => row.marketId === marketId && row.active)
-    .map((row) => ({
-      id: row.id,
-      position: row.position as StrictOutcome,
-      price: normalizeBigInt(row.price),
-      quantity: normalizeBigInt(row.quantity),
-      filled: normalizeBigInt(row.filled),
-    }))
-    .filter((row) => (row.position === "Yes" || row.position === "No") && row.quantity > row.filled);
-};
+  for (let bucket = firstBucket; bucket <= lastBucket; bucket += seconds) {
+    const row = byBucket.get(bucket);
+    if (row) {
+      lastClose = normalizeBigInt(row.close);
+      candleSeries.push({
+        bucketStart: bucket.toString(),
+        open: normalizeBigInt(row.open).toString(),
+        high: normalizeBigInt(row.high).toString(),
+        low: normalizeBigInt(row.low).toString(),
+        close: lastClose.toString(),
+        volumeShares: normalizeBigInt(row.volumeShares).toString(),
+        volumeCollateral: normalizeBigInt(row.volumeCollateral).toString(),
+        trades: Number(row.trades),
+      });
+    } else if (lastClose !== null) {
+      const close = lastClose.toString();
+      candleSeries.push({
+        bucketStart: bucket.toString(),
+        open: close,
+        high: close,
+        low: close,
+        close,
+        volumeShares: "0",
+        volumeCollateral: "0",
+        trades: 0,
+      });
+    }
+  }
 
-const buildBook = async (marketId: string) => {
-  const orders = await loadActiveOrders(marketId);
+  return c.json({
+    marketId,
+    deployment: deployment.name,
+    interval,
+    from: firstBucket.toString(),
+    to: lastBucket.toString(),
+    candles: candleSeries,
+  });
+});
 
-  const yesOrders = orders
-    .filter((order) => order.position === "Yes" && order.quantity > order.filled)
-    .sort((a, b) => {
-      if (a.price === b.price) return 0;
-      return a.price > b.price ? -1 : 1;
-    });
+app.get("/markets/:marketId/fills", async (c) => {
+  const marketId = c.req.param("marketId");
 
-  const noOrders = orders
-    .filter((order) => order.position === "No" && order.quantity > order.filled)
-    .sort((a, b) => {
-      if (a.price === b.price) return 0;
-      return a.price < b.price ? -1 : 1;
-    });
+  const limit = parseLimit(c.req.query("limit"));
+  if (limit === null) {
+    return c.json({ error: `limit must be an integer within [1, ${MAX_LIMIT}]` }, 400);
+  }
 
-  const buildLevels = (rows: OrderRow[], sortAscending: boolean): BookLevel[] => {
-    const sorted = [...rows].sort((a, b) => {
-      if (a.price === b.price) return 0;
-      if (sortAscending) {
-        return a.price < b.price ? -1 : 1;
-      }
-      return a.price > b.price ? -1 : 1;
-    });
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+
+  const [head, finalizedBlock] = await Promise.all([
+    getIndexedHead(deployment.chainId),
+    getFinalizedBlock(deployment.chain),
+  ]);
+  const pinned = await resolveAsOf(c.req.query(), head, deployment);
+  if ("error" in pinned) {
+    return c.json({ error: pinned.error }, pinned.status);
+  }
+
+  const rows = await db
+    .select()
+    .from(schema.fills)
+    .where(
+      and(
+        eq(schema.fills.marketId, scopedId(deployment, marketId)),
+        pinned.asOf ? lte(schema.fills.blockNumber, pinned.asOf.blockNumber) : undefined,
+      ),
+    )
+    .orderBy(desc(schema.fills.blockNumber), desc(schema.fills.logIndex))
+    .limit(limit);
 
-    let cumulative = 0n;
-    return sorted.map((row) => {
-      const remaining = row.quantity - row.filled;
-      cumulative += remaining;
+  return c.json({
+    marketId,
+    deployment: deployment.name,
+    finality: formatFinality(head, finalizedBlock, pinned.asOf),
+    fills: rows.map((fill) => {
+      const blockNumber = normalizeBigInt(fill.blockNumber);
       return {
-        price: row.price.toString(),
-        remaining: remaining.toString(),
-        cumulative: cumulative.toString(),
+        fillId: fill.id,
+        orderId: localId(fill.orderId),
+        makerPosition: fill.makerPosition,
+        takerOutcome: fill.takerOutcome,
+        filler: fill.filler,
+        recipient: fill.recipient,
+        price: normalizeBigInt(fill.price).toString(),
+        quantity: normalizeBigInt(fill.quantity).toString(),
+        cost: normalizeBigInt(fill.cost).toString(),
+        reportedFee: normalizeBigInt(fill.reportedFee).toString(),
+        blockNumber: blockNumber.toString(),
+        blockTimestamp: normalizeBigInt(fill.blockTimestamp).toString(),
+        transactionHash: fill.transactionHash,
+        confirmations: confirmationsAt(blockNumber, head?.blockNumber),
+        finalized: finalizedBlock === null ? null : blockNumber <= finalizedBlock,
       };
-    });
-  };
+    }),
+  });
+});
 
-  return {
-    yes: buildLevels(yesOrders, false),
-    no: buildLevels(noOrders, true),
+app.get("/orders/:orderId", async (c) => {
+  const orderId = c.req.param("orderId");
+  if (!orderId) {
+    return c.json({ error: "orderId is required" }, 400);
+  }
+
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+
+  const rows = await db
+    .select()
+    .from(schema.orders)
+    .where(eq(schema.orders.id, scopedId(deployment, orderId)))
+    .limit(1);
+  const order = rows[0];
+  if (!order) {
+    return c.json({ error: "Order not indexed" }, 404);
+  }
+
+  const head = await getIndexedHead(deployment.chainId);
+  const expirationEpoch = normalizeBigInt(order.expirationEpoch);
+  const quantity = normalizeBigInt(order.quantity);
+  const filled = normalizeBigInt(order.filled);
+
+  return c.json({
+    orderId: order.onchainId,
+    marketId: localId(order.marketId),
+    deployment: deployment.name,
+    owner: order.owner,
+    beneficiary: order.beneficiary,
+    position: order.position,
+    orderType: order.orderType,
+    price: normalizeBigInt(order.price).toString(),
+    quantity: quantity.toString(),
+    filled: filled.toString(),
+    remaining: (quantity - filled).toString(),
+    expirationEpoch: expirationEpoch.toString(),
+    active: Boolean(order.active),
+    state: deriveOrderState(
+      { state: order.state, active: Boolean(order.active), expirationEpoch },
+      head?.blockTimestamp,
+    ),
+    updatedBlock: normalizeBigInt(order.updatedBlock).toString(),
+    updatedTimestamp: normalizeBigInt(order.updatedTimestamp).toString(),
+    confirmations: confirmationsAt(normalizeBigInt(order.updatedBlock), head?.blockNumber),
+  });
+});
+
+// Positions as of a past block, replayed from fills and payout claims up to that block. Claims zero a position
+// and realize its PnL, mirroring resetPosition in the indexer.
+const loadPositionsAtBlock = async (deployment: Deployment, trader: Address, asOf: BlockRef) => {
+  const [takerFills, makerFills, claims] = await Promise.all([
+    db
+      .select({
+        marketId: schema.fills.marketId,
+        outcome: schema.fills.takerOutcome,
+        quantity: schema.fills.quantity,
+        cost: schema.fills.cost,
+        blockNumber: schema.fills.blockNumber,
+      })
+      .from(schema.fills)
+      .where(
+        and(
+          inDeployments(schema.fills, [deployment]),
+          eq(schema.fills.recipient, trader),
+          lte(schema.fills.blockNumber, asOf.blockNumber),
+        ),
+      ),
+    db
+      .select({
+        marketId: schema.fills.marketId,
+        outcome: schema.fills.makerPosition,
+        quantity: schema.fills.quantity,
+        price: schema.fills.price,
+        blockNumber: schema.fills.blockNumber,
+      })
+      .from(schema.fills)
+      .innerJoin(schema.orders, eq(schema.orders.id, schema.fills.orderId))
+      .where(
+        and(
+          inDeployments(schema.fills, [deployment]),
+          eq(schema.orders.beneficiary, trader),
+          lte(schema.fills.blockNumber, asOf.blockNumber),
+        ),
+      ),
+    db
+      .select({
+        marketId: schema.payouts.marketId,
+        outcome: schema.payouts.outcome,
+        netAmount: schema.payouts.netAmount,
+        blockNumber: schema.payouts.blockNumber,
+      })
+      .from(schema.payouts)
+      .where(
+        and(
+          inDeployments(schema.payouts, [deployment]),
+          eq(schema.payouts.claimant, trader),
+          lte(schema.payouts.blockNumber, asOf.blockNumber),
+        ),
+      ),
+  ]);
+
+  const positions = new Map<
+    string,
+    {
+      marketId: string;
+      outcome: string;
+      shares: bigint;
+      costBasis: bigint;
+      realizedPnl: bigint;
+      updatedBlock: bigint;
+    }
+  >();
+  const positionFor = (record: { marketId: string; outcome: string; blockNumber: unknown }) => {
+    const key = `${record.marketId}:${record.outcome}`;
+    const blockNumber = normalizeBigInt(record.blockNumber);
+    let position = positions.get(key);
+    if (!position) {
+      position = {
+        marketId: record.marketId,
+        outcome: record.outcome,
+        shares: 0n,
+        costBasis: 0n,
+        realizedPnl: 0n,
+        updatedBlock: blockNumber,
+      };
+      positions.set(key, position);
+    }
+    if (blockNumber > position.updatedBlock) position.updatedBlock = blockNumber;
+    return position;
   };
+
+  for (const fill of takerFills) {
+    const position = positionFor(fill);
+    position.shares += normalizeBigInt(fill.quantity);
+    position.costBasis += normalizeBigInt(fill.cost);
+  }
+  for (const fill of makerFills) {
+    const position = positionFor(fill);
+    const quantity = normalizeBigInt(fill.quantity);
+    position.shares += quantity;
+    position.costBasis += stakeFor(fill.outcome as StrictOutcome, normalizeBigInt(fill.price), quantity);
+  }
+  for (const claim of claims) {
+    const position = positionFor(claim);
+    position.realizedPnl += normalizeBigInt(claim.netAmount) - position.costBasis;
+    position.shares = 0n;
+    position.costBasis = 0n;
+  }
+
+  return [...positions.values()];
 };
 
-app.get("/markets/:marketId/book", async (c) => {
-  const marketId = c.req.param("marketId");
-  if (!marketId) {
-    return c.json({ error: "marketId is required" }, 400);
+// Market status and outcome at a past block come from the lifecycle history rather than the live row.
+const loadPortfolioAtBlock = async (deployment: Deployment, trader: Address, asOf: BlockRef) => {
+  const positions = (await loadPositionsAtBlock(deployment, trader, asOf)).filter(
+    (position) => position.shares > 0n || position.realizedPnl !== 0n,
+  );
+  if (positions.length === 0) return [];
+
+  const events = await db
+    .select({
+      marketId: schema.marketEvents.marketId,
+      newStatus: schema.marketEvents.newStatus,
+      outcome: schema.marketEvents.outcome,
+    })
+    .from(schema.marketEvents)
+    .where(
+      and(
+        inArray(schema.marketEvents.marketId, [...new Set(positions.map((position) => position.marketId))]),
+        lte(schema.marketEvents.blockNumber, asOf.blockNumber),
+      ),
+    )
+    .orderBy(asc(schema.marketEvents.blockNumber), asc(schema.marketEvents.id));
+
+  const markets = new Map<string, { status: string; outcome: string }>();
+  for (const event of events) {
+    const previous = markets.get(event.marketId);
+    markets.set(event.marketId, {
+      status: event.newStatus,
+      outcome: event.outcome ?? previous?.outcome ?? "Undefined",
+    });
   }
 
-  const market = await getMarketSummary(marketId);
-  if (!market) {
-    return c.json({ error: "Market not indexed" }, 404);
+  return positions.map((position) => ({
+    ...position,
+    marketStatus: markets.get(position.marketId)?.status ?? "Active",
+    marketOutcome: markets.get(position.marketId)?.outcome ?? "Undefined",
+  }));
+};
+
+app.get("/traders/:address/claimable", async (c) => {
+  const address = c.req.param("address");
+  if (!address || !isAddress(address)) {
+    return c.json({ error: "address must be an address" }, 400);
   }
+  const trader = address.toLowerCase() as Address;
 
-  const book = await buildBook(marketId);
+  const selected = selectDeployments(c.req.query());
+  if ("error" in selected) {
+    return c.json({ error: selected.error }, 400);
+  }
+
+  const [holdings, claimed] = await Promise.all([
+    db
+      .select({
+        marketId: schema.positions.marketId,
+        chainId: schema.positions.chainId,
+        contract: schema.positions.contract,
+        outcome: schema.positions.outcome,
+        shares: schema.positions.shares,
+        feeBps: schema.markets.feeBps,
+        finalizedAt: schema.markets.finalizedAt,
+      })
+      .from(schema.positions)
+      .innerJoin(schema.markets, eq(schema.markets.id, schema.positions.marketId))
+      .where(
+        and(
+          inDeployments(schema.positions, selected),
+          eq(schema.positions.trader, trader),
+          gt(schema.positions.shares, 0n),
+          eq(schema.markets.status, "Finalized"),
+          eq(schema.positions.outcome, schema.markets.outcome),
+        ),
+      ),
+    db
+      .select({ marketId: schema.payouts.marketId })
+      .from(schema.payouts)
+      .where(and(inDeployments(schema.payouts, selected), eq(schema.payouts.claimant, trader))),
+  ]);
+
+  // claimPayout allows one claim per market and account, and withholds the fee from the gross payout.
+  const claimedMarkets = new Set(claimed.map((row) => row.marketId));
+  let totalNetAmount = 0n;
+  const claimable = holdings
+    .filter((row) => !claimedMarkets.has(row.marketId))
+    .map((row) => {
+      const grossAmount = normalizeBigInt(row.shares);
+      const fee = payoutFee(grossAmount, normalizeBigInt(row.feeBps));
+      const netAmount = grossAmount - fee;
+      totalNetAmount += netAmount;
+      return {
+        marketId: localId(row.marketId),
+        deployment: deploymentNameOf(row),
+        chainId: row.chainId,
+        outcome: row.outcome,
+        shares: grossAmount.toString(),
+        grossAmount: grossAmount.toString(),
+        fee: fee.toString(),
+        netAmount: netAmount.toString(),
+        finalizedAt: row.finalizedAt === null ? null : normalizeBigInt(row.finalizedAt).toString(),
+      };
+    });
 
   return c.json({
-    marketId,
-    status: market.status,
-    outcome: market.outcome,
-    feeBps: normalizeBigInt(market.feeBps).toString(),
-    disputeActive: Boolean(market.disputeActive),
-    totalCollateral: normalizeBigInt(market.totalCollateral).toString(),
-    updatedBlock: normalizeBigInt(market.updatedBlock).toString(),
-    updatedTimestamp: normalizeBigInt(market.updatedTimestamp).toString(),
-    yes: book.yes,
-    no: book.no,
+    trader,
+    claimable,
+    totalNetAmount: totalNetAmount.toString(),
   });
 });
 
-app.get("/markets/:marketId/top-of-book", async (c) => {
-  const marketId = c.req.param("marketId");
-  if (!marketId) {
-    return c.json({ error: "marketId is required" }, 400);
+app.get("/traders/:address/portfolio", async (c) => {
+  const address = c.req.param("address");
+  if (!address || !isAddress(address)) {
+    return c.json({ error: "address must be an address" }, 400);
   }
+  const trader = address.toLowerCase() as Address;
 
-  const market = await getMarketSummary(marketId);
-  if (!market) {
-    return c.json({ error: "Market not indexed" }, 404);
+  const deployment = resolveDeployment(c.req.query());
+  if ("error" in deployment) {
+    return c.json({ error: deployment.error }, 400);
+  }
+
+  const [head, finalizedBlock] = await Promise.all([
+    getIndexedHead(deployment.chainId),
+    getFinalizedBlock(deployment.chain),
+  ]);
+  const pinned = await resolveAsOf(c.req.query(), head, deployment);
+  if ("error" in pinned) {
+    return c.json({ error: pinned.error }, pinned.status);
+  }
+
+  const rows = pinned.asOf
+    ? await loadPortfolioAtBlock(deployment, trader, pinned.asOf)
+    : await db
+        .select({
+          marketId: schema.positions.marketId,
+          outcome: schema.positions.outcome,
+          shares: schema.positions.shares,
+          costBasis: schema.positions.costBasis,
+          realizedPnl: schema.positions.realizedPnl,
+          updatedBlock: schema.positions.updatedBlock,
+          marketStatus: schema.markets.status,
+          marketOutcome: schema.markets.outcome,
+        })
+        .from(schema.positions)
+        .innerJoin(schema.markets, eq(schema.markets.id, schema.positions.marketId))
+        .where(
+          and(
+            inDeployments(schema.positions, [deployment]),
+            eq(schema.positions.trader, trader),
+            or(gt(schema.positions.shares, 0n), ne(schema.positions.realizedPnl, 0n)),
+          ),
+        );
+
+  const yesMarks = new Map<string, bigint | null>();
+  for (const row of rows) {
+    if (!yesMarks.has(row.marketId)) {
+      yesMarks.set(
+        row.marketId,
+        await markYesPrice({ id: row.marketId, outcome: row.marketOutcome }, head?.blockTimestamp, pinned.asOf),
+      );
+    }
   }
 
-  const book = await buildBook(marketId);
+  const totals = { costBasis: 0n, marketValue: 0n, unrealizedPnl: 0n, realizedPnl: 0n };
+  const positions = rows.map((row) => {
+    const shares = normalizeBigInt(row.shares);
+    const costBasis = normalizeBigInt(row.costBasis);
+    const realizedPnl = normalizeBigInt(row.realizedPnl);
+    const yesMark = yesMarks.get(row.marketId) ?? null;
+    const markPrice = yesMark === null ? null : row.outcome === "Yes" ? yesMark : PRICE_SCALE - yesMark;
+    const marketValue = markPrice === null ? null : (shares * markPrice) / PRICE_SCALE;
+    const unrealizedPnl = marketValue === null ? null : marketValue - costBasis;
+
+    totals.costBasis += costBasis;
+    totals.realizedPnl += realizedPnl;
+    if (marketValue !== null && unrealizedPnl !== null) {
+      totals.marketValue += marketValue;
+      totals.unrealizedPnl += unrealizedPnl;
+    }
+
+    return {
+      marketId: localId(row.marketId),
+      marketStatus: row.marketStatus,
+      outcome: row.outcome,
+      shares: shares.toString(),
+      averageEntryPrice: shares === 0n ? null : ((costBasis * PRICE_SCALE) / shares).toString(),
+      costBasis: costBasis.toString(),
+      markPrice: markPrice?.toString() ?? null,
+      marketValue: marketValue?.toString() ?? null,
+      unrealizedPnl: unrealizedPnl?.toString() ?? null,
+      realizedPnl: realizedPnl.toString(),
+      confirmations: confirmationsAt(normalizeBigInt(row.updatedBlock), head?.blockNumber),
+    };
+  });
 
   return c.json({
-    marketId,
-    yes: book.yes[0] ?? null,
-    no: book.no[0] ?? null,
-    updatedBlock: normalizeBigInt(market.updatedBlock).toString(),
-    updatedTimestamp: normalizeBigInt(market.updatedTimestamp).toString(),
+    trader,
+    deployment: deployment.name,
+    finality: formatFinality(head, finalizedBlock, pinned.asOf),
+    positions,
+    totals: {
+      costBasis: totals.costBasis.toString(),
+      marketValue: totals.marketValue.toString(),
+      unrealizedPnl: totals.unrealizedPnl.toString(),
+      realizedPnl: totals.realizedPnl.toString(),
+    },
   });
 });
 
 app.post("/plan-fill", async (c) => {
-  const payload = (await c.req.json()) as {
+  const payload = (await c.req.json()) as DeploymentSelector & {
     marketId?: string;
     outcome?: string;
-    quantity?: string | number | bigint;
-    limitPrice?: string | number | bigint;
+    quantity?: unknown;
+    limitPrice?: unknown;
+    taker?: string;
+    recipient?: string;
+    encode?: boolean;
+    slippageBps?: unknown;
   };
 
   const marketId = payload.marketId;
   if (!marketId) {
-    return c.json({ error: "marketId is required" }, 400);
+    return c.json(planError("InvalidRequest", "marketId is required"), 400);
+  }
+
+  const deployment = resolveDeployment(payload);
+  if ("error" in deployment) {
+    return c.json(planError("InvalidRequest", deployment.error), 400);
   }
+  const marketKey = scopedId(deployment, marketId);
 
   if (payload.outcome !== "Yes" && payload.outcome !== "No") {
-    return c.json({ error: "outcome must be 'Yes' or 'No'" }, 400);
+    return c.json(planError("InvalidOutcome", "outcome must be 'Yes' or 'No'"), 400);
   }
   const desiredOutcome = payload.outcome as StrictOutcome;
 
   if (payload.quantity === undefined) {
-    return c.json({ error: "quantity is required" }, 400);
+    return c.json(planError("InvalidQuantity", "quantity is required"), 400);
   }
-  const quantityRequested = normalizeBigInt(payload.quantity);
-  if (quantityRequested <= 0) {
-    return c.json({ error: "quantity must be positive" }, 400);
+  const quantityRequested = parsePlanAmount(payload.quantity);
+  if (quantityRequested === null || quantityRequested <= 0n) {
+    return c.json(planError("InvalidQuantity", "quantity must be a positive integer"), 400);
   }
 
-  const limitPrice = payload.limitPrice !== undefined ? normalizeBigInt(payload.limitPrice) : undefined;
-  if (limitPrice !== undefined && (limitPrice < 0n || limitPrice >= PRICE_SCALE)) {
-    return c.json({ error: "limitPrice must be within [0, 1e6)" }, 400);
+  const limitPrice = payload.limitPrice !== undefined ? parsePlanAmount(payload.limitPrice) : undefined;
+  if (limitPrice === null || (limitPrice !== undefined && limitPrice >= PRICE_SCALE)) {
+    return c.json(planError("InvalidPrice", "limitPrice must be an integer within [0, 1e6)"), 400);
   }
 
-  const market = await getMarketSummary(marketId);
+  if (payload.taker !== undefined && !isAddress(payload.taker)) {
+    return c.json(planError("InvalidRequest", "taker must be an address"), 400);
+  }
+  const taker = payload.taker?.toLowerCase() as Address | undefined;
+
+  if (payload.recipient !== undefined && !isAddress(payload.recipient)) {
+    return c.json(planError("InvalidRequest", "recipient must be an address"), 400);
+  }
+  const recipient = (payload.recipient?.toLowerCase() as Address | undefined) ?? zeroAddress;
+
+  const slippageBps = payload.slippageBps !== undefined ? parsePlanAmount(payload.slippageBps) : 0n;
+  if (slippageBps === null || slippageBps >= MAX_FEE_BPS) {
+    return c.json(planError("InvalidRequest", "slippageBps must be an integer within [0, 10000)"), 400);
+  }
+
+  const market = await getMarketSummary(marketKey);
   if (!market) {
-    return c.json({ error: "Market not indexed" }, 404);
+    return c.json(planError("UnknownMarket", "Market not indexed"), 404);
+  }
+
+  if (market.status !== "Active") {
+    return c.json(
+      planError("MarketNotActive", `Market is ${market.status}`, { status: market.status }),
+      409,
+    );
+  }
+
+  const head = await getIndexedHead(deployment.chainId);
+  if (head) {
+    const openEpoch = normalizeBigInt(market.openEpoch);
+    const closeEpoch = normalizeBigInt(market.closeEpoch);
+    if (head.blockTimestamp < openEpoch || head.blockTimestamp > closeEpoch) {
+      return c.json(
+        planError("MarketClosed", head.blockTimestamp < openEpoch ? "Market is not open yet" : "Market is closed", {
+          openEpoch: openEpoch.toString(),
+          closeEpoch: closeEpoch.toString(),
+          headTimestamp: head.blockTimestamp.toString(),
+        }),
+        409,
+      );
+    }
   }
 
-  const orders = await loadActiveOrders(marketId);
+  const orders = await loadActiveOrders(marketKey, head?.blockTimestamp);
   const makerSide: StrictOutcome = desiredOutcome === "Yes" ? "No" : "Yes";
 
   const relevant = orders
@@ -223,9 +2290,20 @@ app.post("/plan-fill", async (c) => {
       return a.price > b.price ? -1 : 1;
     });
 
+  // fillOrder reverts with TraderNotApproved for an unapproved taker or maker order owner.
+  const approvalRequired = await isApprovalRequired(deployment);
+  const traders = new Set(relevant.map((order) => order.owner));
+  if (taker) traders.add(taker);
+  const approvedTraders = approvalRequired ? await loadApprovedTraders(deployment, [...traders]) : new Set<string>();
+
+  if (approvalRequired && taker && !approvedTraders.has(taker)) {
+    return c.json(planError("TraderNotApproved", "Taker is not an approved trader", { taker }), 403);
+  }
+
   let remaining = quantityRequested;
   let totalCost = 0n;
-  let totalFee = 0n;
+  let totalReportedFee = 0n;
+  let totalNetPayout = 0n;
   const marketFeeBps = normalizeBigInt(market.feeBps);
 
   const fillsPlan: Array<{
@@ -234,7 +2312,14 @@ app.post("/plan-fill", async (c) => {
     price: string;
     quantity: string;
     takerCost: string;
-    fee: string;
+    reportedFee: string;
+    expectedNetPayout: string;
+    confirmations: string | null;
+  }> = [];
+  const skipped: Array<{
+    orderId: string;
+    owner: Address;
+    reason: PlanErrorCode;
   }> = [];
 
   for (const order of relevant) {
@@ -254,45 +2339,343 @@ app.post("/plan-fill", async (c) => {
       }
     }
 
+    if (approvalRequired && !approvedTraders.has(order.owner)) {
+      skipped.push({ orderId: localId(order.id), owner: order.owner, reason: "TraderNotApproved" });
+      continue;
+    }
+
     const fillQuantity = available >= remaining ? remaining : available;
     const cost = stakeFor(desiredOutcome, order.price, fillQuantity);
-    const fee = (fillQuantity * marketFeeBps) / MAX_FEE_BPS;
+    const reportedFee = payoutFee(fillQuantity, marketFeeBps);
+    const netPayout = fillQuantity - reportedFee;
 
     fillsPlan.push({
-      orderId: order.id,
+      orderId: localId(order.id),
       makerPosition: makerSide,
       price: order.price.toString(),
       quantity: fillQuantity.toString(),
       takerCost: cost.toString(),
-      fee: fee.toString(),
+      reportedFee: reportedFee.toString(),
+      expectedNetPayout: netPayout.toString(),
+      confirmations: confirmationsAt(order.updatedBlock, head?.blockNumber),
     });
 
     remaining -= fillQuantity;
     totalCost += cost;
-    totalFee += fee;
+    totalReportedFee += reportedFee;
+    totalNetPayout += netPayout;
   }
 
   if (remaining > 0n) {
     return c.json(
-      {
-        error: "Insufficient liquidity to satisfy requested quantity",
+      planError("InsufficientLiquidity", "Insufficient liquidity to satisfy requested quantity", {
         availableQuantity: (quantityRequested - remaining).toString(),
-      },
+        skipped,
+      }),
       422,
     );
   }
 
+  const transactions = payload.encode
+    ? fillsPlan.map((fill) => {
+        const limit = fillLimitPrice(makerSide, BigInt(fill.price), slippageBps);
+        return {
+          orderId: fill.orderId,
+          to: deployment.address,
+          chainId: deployment.chainId,
+          limitPrice: limit.toString(),
+          quantity: fill.quantity,
+          data: encodeFunctionData({
+            abi: PredictionMarketAbi,
+            functionName: "fillOrder",
+            args: [
+              {
+                orderId: BigInt(fill.orderId),
+                limitPrice: limit,
+                quantity: BigInt(fill.quantity),
+                recipient,
+              },
+            ],
+          }),
+        };
+      })
+    : undefined;
+
   return c.json({
     marketId,
+    deployment: deployment.name,
+    chainId: deployment.chainId,
     desiredOutcome,
     totalQuantity: quantityRequested.toString(),
     totalCost: totalCost.toString(),
-    totalFee: totalFee.toString(),
+    totalReportedFee: totalReportedFee.toString(),
+    netPayoutPerShare: (PRICE_SCALE - payoutFee(PRICE_SCALE, marketFeeBps)).toString(),
+    expectedNetPayout: totalNetPayout.toString(),
     fills: fillsPlan,
+    skipped,
+    finality: formatFinality(head, await getFinalizedBlock(deployment.chain)),
+    ...(transactions && {
+      transactions,
+      // Each leg pulls its taker stake with transferFrom; the contract never charges more than the quoted cost.
+      allowance: {
+        spender: deployment.address,
+        amount: totalCost.toString(),
+      },
+    }),
+  });
+});
+
+// Market drafts. Proposers submit a question spec, reviewers approve or reject it, and the creation agent (the only
+// account createMarket accepts) takes approved drafts oldest first, sends the returned transaction and reports its
+// hash. Every /admin route needs `Authorization: Bearer $ADMIN_API_TOKEN` and answers 503 while the token is unset.
+const adminAuth = process.env.ADMIN_API_TOKEN
+  ? bearerAuth({
+      token: process.env.ADMIN_API_TOKEN,
+      noAuthenticationHeaderMessage: { error: "Missing bearer token" },
+      invalidAuthenticationHeaderMessage: { error: "Malformed Authorization header" },
+      invalidTokenMessage: { error: "Invalid bearer token" },
+    })
+  : null;
+const drafts = openDraftStore(process.env.DRAFTS_DIR ?? ".drafts");
+const publisher = createPublisherFromEnv();
+
+const MAX_ACTOR_LENGTH = 128;
+const MAX_NOTE_LENGTH = 2_000;
+
+app.use("/admin/*", async (c, next) => {
+  if (!adminAuth) {
+    return c.json({ error: "Admin API disabled; set ADMIN_API_TOKEN" }, 503);
+  }
+  return adminAuth(c, next);
+});
+
+const parseActor = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" && value.length <= MAX_ACTOR_LENGTH ? value.trim() : null;
+
+const createMarketTransaction = (draft: MarketDraft) => ({
+  to: draft.contract,
+  chainId: draft.chainId,
+  data: encodeFunctionData({
+    abi: PredictionMarketAbi,
+    functionName: "createMarket",
+    args: [
+      {
+        questionURI: draft.questionUri,
+        oracleURI: draft.oracleUri,
+        openEpoch: BigInt(draft.openEpoch),
+        closeEpoch: BigInt(draft.closeEpoch),
+        feeBps: Number(draft.feeBps),
+      },
+    ],
+  }),
+});
+
+const formatDraft = (draft: MarketDraft) => ({
+  ...draft,
+  transaction: draft.status === "approved" || draft.status === "submitted" ? createMarketTransaction(draft) : null,
+});
+
+// Links an approved or submitted draft to its MarketCreated event once indexed: the market created by the reported
+// transaction, otherwise the oldest market with the draft's exact parameters not already linked to another draft
+// (the creation agent may have replaced the transaction it reported).
+const linkDraft = async (draft: MarketDraft): Promise<MarketDraft> => {
+  if (draft.status !== "approved" && draft.status !== "submitted") return draft;
+
+  const candidates = await db
+    .select({
+      id: schema.markets.id,
+      onchainId: schema.markets.onchainId,
+      blockNumber: schema.marketEvents.blockNumber,
+      timestamp: schema.marketEvents.blockTimestamp,
+      transactionHash: schema.marketEvents.transactionHash,
+    })
+    .from(schema.markets)
+    .innerJoin(
+      schema.marketEvents,
+      and(eq(schema.marketEvents.marketId, schema.markets.id), eq(schema.marketEvents.eventName, "MarketCreated")),
+    )
+    .where(
+      and(
+        eq(schema.markets.chainId, draft.chainId),
+        eq(schema.markets.contract, draft.contract as Address),
+        eq(schema.markets.questionUri, draft.questionUri),
+        eq(schema.markets.oracleUri, draft.oracleUri),
+        eq(schema.markets.openEpoch, BigInt(draft.openEpoch)),
+        eq(schema.markets.closeEpoch, BigInt(draft.closeEpoch)),
+        eq(schema.markets.feeBps, BigInt(draft.feeBps)),
+      ),
+    )
+    .orderBy(asc(schema.marketEvents.blockNumber));
+
+  const submitted = draft.submission?.transactionHash.toLowerCase();
+  const linked = new Set(
+    drafts.list(["created"]).map((other) => `${other.chainId}:${other.contract}:${other.market?.marketId}`),
+  );
+  const match =
+    candidates.find((candidate) => candidate.transactionHash.toLowerCase() === submitted) ??
+    candidates.find((candidate) => !linked.has(candidate.id));
+  if (!match) return draft;
+
+  const result = drafts.link(draft.draftId, {
+    marketId: match.onchainId,
+    blockNumber: normalizeBigInt(match.blockNumber).toString(),
+    timestamp: normalizeBigInt(match.timestamp).toString(),
+    transactionHash: match.transactionHash,
+  });
+  return "error" in result ? draft : result;
+};
+
+// Validates a draft body without publishing or storing anything.
+const checkDraft = (payload: DeploymentSelector & Record<string, unknown>) => {
+  const { deployment: name, chainId, contract, ...rest } = payload;
+  const deployment = resolveDeployment({ deployment: name, chainId, contract });
+  const validation = validateDraftSpec(rest);
+  const issues = "issues" in validation ? [...validation.issues] : [];
+  if ("error" in deployment) {
+    issues.unshift({ code: "InvalidRequest", field: "deployment", message: deployment.error });
+  }
+  return { deployment, validation, issues };
+};
+
+app.post("/admin/markets/draft/validate", async (c) => {
+  const { deployment, issues } = checkDraft(await c.req.json());
+  return c.json({
+    valid: issues.length === 0,
+    deployment: "error" in deployment ? null : deployment.name,
+    issues,
+  });
+});
+
+app.post("/admin/markets/draft", async (c) => {
+  const payload = (await c.req.json()) as DeploymentSelector & Record<string, unknown>;
+  const { proposer: rawProposer, ...spec } = payload;
+
+  const proposer = parseActor(rawProposer);
+  const { deployment, validation, issues } = checkDraft(spec);
+  if (!proposer) {
+    issues.push({
+      code: "InvalidRequest",
+      field: "proposer",
+      message: `proposer must be a non-empty string of at most ${MAX_ACTOR_LENGTH} characters`,
+    });
+  }
+  if (issues.length > 0 || "error" in deployment || "issues" in validation || !proposer) {
+    return c.json({ error: "Draft is invalid", issues }, 400);
+  }
+
+  if (!publisher) {
+    return c.json({ error: "Publishing disabled; set METADATA_PUBLISH_API_URL or METADATA_PUBLISH_DIR" }, 503);
+  }
+
+  const { question, oracle, openEpoch, closeEpoch, feeBps } = validation.spec;
+  let questionUri: string;
+  let oracleUri: string;
+  try {
+    questionUri = await publisher.publish(JSON.stringify(question, null, 2));
+    oracleUri = oracle ? await publisher.publish(JSON.stringify(oracle, null, 2)) : validation.spec.oracleUri!;
+  } catch (error) {
+    return c.json({ error: `Publishing failed: ${error instanceof Error ? error.message : String(error)}` }, 502);
+  }
+
+  const draft = drafts.create({
+    deployment: deployment.name,
+    chainId: deployment.chainId,
+    contract: deployment.address,
+    proposer,
+    question,
+    questionUri,
+    oracleUri,
+    openEpoch: openEpoch.toString(),
+    closeEpoch: closeEpoch.toString(),
+    feeBps: feeBps.toString(),
+  });
+  return c.json(formatDraft(draft), 201);
+});
+
+app.get("/admin/markets/draft", async (c) => {
+  const query = c.req.query();
+
+  const statuses = query.status?.split(",").filter(Boolean) as DraftStatus[] | undefined;
+  const unknownStatus = statuses?.find((status) => !DRAFT_STATUSES.includes(status));
+  if (unknownStatus) {
+    return c.json({ error: `status must be one of ${DRAFT_STATUSES.join(", ")}` }, 400);
+  }
+
+  const hasSelector = query.deployment !== undefined || query.chainId !== undefined || query.contract !== undefined;
+  const selected = hasSelector ? selectDeployments(query) : null;
+  if (selected && "error" in selected) {
+    return c.json({ error: selected.error }, 400);
+  }
+
+  // Linking first lets a draft created since the last read leave the approved queue.
+  const inScope = drafts
+    .list()
+    .filter(
+      (draft) =>
+        !selected ||
+        selected.some((deployment) => deployment.chainId === draft.chainId && deployment.address === draft.contract),
+    );
+  const current = await Promise.all(inScope.map(linkDraft));
+
+  return c.json({
+    drafts: current.filter((draft) => !statuses || statuses.includes(draft.status)).map(formatDraft),
   });
 });
 
+app.get("/admin/markets/draft/:draftId", async (c) => {
+  const draft = drafts.get(c.req.param("draftId"));
+  if (!draft) {
+    return c.json({ error: "Draft not found" }, 404);
+  }
+  return c.json(formatDraft(await linkDraft(draft)));
+});
+
+const reviewDraft =
+  (status: "approved" | "rejected") => async (c: Context<BlankEnv, "/admin/markets/draft/:draftId">) => {
+    const draftId = c.req.param("draftId");
+    const payload = (await c.req.json()) as { reviewer?: unknown; note?: unknown };
+
+    const reviewer = parseActor(payload.reviewer);
+    if (!reviewer) {
+      return c.json({ error: `reviewer must be a non-empty string of at most ${MAX_ACTOR_LENGTH} characters` }, 400);
+    }
+    if (payload.note !== undefined && (typeof payload.note !== "string" || payload.note.length > MAX_NOTE_LENGTH)) {
+      return c.json({ error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` }, 400);
+    }
+
+    if (!drafts.get(draftId)) {
+      return c.json({ error: "Draft not found" }, 404);
+    }
+    const result = drafts.review(draftId, { status, reviewer, note: payload.note });
+    if ("error" in result) {
+      return c.json({ error: result.error }, 409);
+    }
+    return c.json(formatDraft(result));
+  };
+
+app.post("/admin/markets/draft/:draftId/approve", reviewDraft("approved"));
+app.post("/admin/markets/draft/:draftId/reject", reviewDraft("rejected"));
+
+app.post("/admin/markets/draft/:draftId/submission", async (c) => {
+  const draftId = c.req.param("draftId");
+  const payload = (await c.req.json()) as { transactionHash?: unknown };
+
+  if (typeof payload.transactionHash !== "string" || !isHash(payload.transactionHash)) {
+    return c.json({ error: "transactionHash must be a 32-byte hex string" }, 400);
+  }
+
+  if (!drafts.get(draftId)) {
+    return c.json({ error: "Draft not found" }, 404);
+  }
+  const result = drafts.recordSubmission(draftId, payload.transactionHash.toLowerCase());
+  if ("error" in result) {
+    return c.json({ error: result.error }, 409);
+  }
+  return c.json(formatDraft(await linkDraft(result)));
+});
+
 app.use("/sql/*", client({ db, schema }));
-app.use("/graphql", graphql({ db, schema }));
+// Stored documents are served as `metadataDocuments`, filterable by uri, next to the indexed tables.
+app.use("/graphql", graphql({ db, schema: { ...schema, metadataDocument: metadataDocumentsView } }));
 
 export default app;
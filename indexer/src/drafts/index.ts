@@ -0,0 +1,110 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import type { QuestionDocument } from "../metadata";
+
+export { validateDraftSpec } from "./validation";
+export type { DraftIssue, DraftSpec } from "./validation";
+
+// pending -> approved | rejected; approved -> submitted once the creation agent reports its transaction, and
+// approved or submitted -> created once the MarketCreated event is indexed. Approved drafts may still be rejected.
+export type DraftStatus = "pending" | "approved" | "rejected" | "submitted" | "created";
+
+export const DRAFT_STATUSES: readonly DraftStatus[] = ["pending", "approved", "rejected", "submitted", "created"];
+
+export type MarketDraft = {
+  draftId: string;
+  status: DraftStatus;
+  deployment: string;
+  chainId: number;
+  contract: string;
+  proposer: string;
+  question: QuestionDocument;
+  questionUri: string;
+  oracleUri: string;
+  openEpoch: string;
+  closeEpoch: string;
+  feeBps: string;
+  createdAt: string;
+  updatedAt: string;
+  review?: { status: "approved" | "rejected"; reviewer: string; note?: string; at: string };
+  submission?: { transactionHash: string; at: string };
+  market?: { marketId: string; blockNumber: string; timestamp: string; transactionHash: string };
+};
+
+export type NewDraft = Omit<MarketDraft, "draftId" | "status" | "createdAt" | "updatedAt">;
+
+type Transition = MarketDraft | { error: string };
+
+export type DraftStore = {
+  list(statuses?: readonly DraftStatus[]): MarketDraft[];
+  get(draftId: string): MarketDraft | null;
+  create(draft: NewDraft): MarketDraft;
+  review(draftId: string, review: { status: "approved" | "rejected"; reviewer: string; note?: string }): Transition;
+  recordSubmission(draftId: string, transactionHash: string): Transition;
+  link(draftId: string, market: NonNullable<MarketDraft["market"]>): Transition;
+};
+
+const now = () => Math.floor(Date.now() / 1000).toString();
+
+// One JSON file per draft, replaced atomically, like the resolver's approval queue. Drafts live outside the indexed
+// tables because the API's database connection is read-only and drafts must survive a reindex.
+export const openDraftStore = (directory: string): DraftStore => {
+  const fileFor = (draftId: string) => path.join(directory, `${draftId}.json`);
+
+  const read = (draftId: string): MarketDraft | null => {
+    // Ids come from request paths, so anything but a UUID is treated as unknown rather than joined into a path.
+    if (!/^[0-9a-f-]{36}$/.test(draftId)) return null;
+    const file = fileFor(draftId);
+    return existsSync(file) ? (JSON.parse(readFileSync(file, "utf8")) as MarketDraft) : null;
+  };
+
+  const write = (draft: MarketDraft) => {
+    const file = fileFor(draft.draftId);
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(`${file}.tmp`, `${JSON.stringify(draft, null, 2)}\n`);
+    renameSync(`${file}.tmp`, file);
+    return draft;
+  };
+
+  const transition = (draftId: string, from: readonly DraftStatus[], changes: Partial<MarketDraft>): Transition => {
+    const draft = read(draftId);
+    if (!draft) return { error: `Draft ${draftId} does not exist` };
+    if (!from.includes(draft.status)) {
+      return { error: `Draft is ${draft.status}; expected ${from.join(" or ")}` };
+    }
+    return write({ ...draft, ...changes, updatedAt: now() });
+  };
+
+  return {
+    list: (statuses) =>
+      (existsSync(directory) ? readdirSync(directory) : [])
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => JSON.parse(readFileSync(path.join(directory, file), "utf8")) as MarketDraft)
+        .filter((draft) => !statuses || statuses.includes(draft.status))
+        .sort((a, b) => Number(a.createdAt) - Number(b.createdAt)),
+
+    get: read,
+
+    create: (draft) => {
+      const createdAt = now();
+      return write({ draftId: randomUUID(), status: "pending", ...draft, createdAt, updatedAt: createdAt });
+    },
+
+    review: (draftId, { status, reviewer, note }) =>
+      transition(draftId, status === "approved" ? ["pending"] : ["pending", "approved"], {
+        status,
+        review: { status, reviewer, note, at: now() },
+      }),
+
+    // A replacement transaction (e.g. after a fee bump) overwrites the recorded hash.
+    recordSubmission: (draftId, transactionHash) =>
+      transition(draftId, ["approved", "submitted"], {
+        status: "submitted",
+        submission: { transactionHash, at: now() },
+      }),
+
+    link: (draftId, market) => transition(draftId, ["approved", "submitted"], { status: "created", market }),
+  };
+};
@@ -0,0 +1,98 @@
+import { MAX_FEE_BPS } from "@infinite-markets/sdk/constants";
+
+import { questionDocumentSchema, validateAgainstSchema } from "../metadata/schema";
+import type { QuestionDocument } from "../metadata/schema";
+
+// Codes reuse the names of the IPredictionMarket custom errors `createMarket` would revert with; documents that fail
+// the metadata schema are reported as InvalidDocument and malformed fields as InvalidRequest.
+export type DraftIssueCode =
+  "InvalidRequest" | "InvalidDocument" | "EmptyQuestionURI" | "EmptyOracleURI" | "InvalidEpochRange" | "FeeTooHigh";
+
+export type DraftIssue = { code: DraftIssueCode; field: string; message: string };
+
+/** A validated proposal; `oracle` is set when the oracle document is to be published with the question. */
+export type DraftSpec = {
+  question: QuestionDocument;
+  oracleUri?: string;
+  oracle?: Record<string, unknown>;
+  openEpoch: bigint;
+  closeEpoch: bigint;
+  feeBps: bigint;
+};
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseUint = (value: unknown): bigint | null => {
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+  return null;
+};
+
+const parseEpoch = (payload: Record<string, unknown>, field: string, issues: DraftIssue[]) => {
+  const value = parseUint(payload[field]);
+  if (value === null || value > MAX_UINT64) {
+    issues.push({ code: "InvalidRequest", field, message: `${field} must be a unix timestamp within uint64` });
+    return null;
+  }
+  return value;
+};
+
+/**
+ * Checks a proposed market against the rules `createMarket` enforces (non-empty URIs, openEpoch <= closeEpoch,
+ * feeBps <= 10000) and the question document against the metadata schema, collecting every issue rather than
+ * stopping at the first. The question is always published by the service, so its URI cannot be empty; the oracle is
+ * either an existing `oracleUri` or an `oracle` document to publish.
+ */
+export const validateDraftSpec = (payload: unknown): { spec: DraftSpec } | { issues: DraftIssue[] } => {
+  if (!isRecord(payload)) {
+    return { issues: [{ code: "InvalidRequest", field: "$", message: "The draft must be a JSON object" }] };
+  }
+  const issues: DraftIssue[] = [];
+
+  if (payload.question === undefined) {
+    issues.push({ code: "EmptyQuestionURI", field: "question", message: "question is required" });
+  } else {
+    for (const message of validateAgainstSchema(questionDocumentSchema, payload.question, "question")) {
+      issues.push({ code: "InvalidDocument", field: "question", message });
+    }
+  }
+
+  const { oracleUri, oracle } = payload;
+  if (oracleUri !== undefined && oracle !== undefined) {
+    issues.push({ code: "InvalidRequest", field: "oracle", message: "Set either oracleUri or oracle, not both" });
+  } else if (oracle !== undefined) {
+    if (!isRecord(oracle) || typeof oracle.adapter !== "string" || oracle.adapter.trim() === "") {
+      issues.push({ code: "InvalidDocument", field: "oracle", message: "oracle must be an object naming its adapter" });
+    }
+  } else if (typeof oracleUri !== "string" || oracleUri.trim() === "") {
+    issues.push({ code: "EmptyOracleURI", field: "oracleUri", message: "oracleUri or an oracle document is required" });
+  }
+
+  const openEpoch = parseEpoch(payload, "openEpoch", issues);
+  const closeEpoch = parseEpoch(payload, "closeEpoch", issues);
+  if (openEpoch !== null && closeEpoch !== null && openEpoch > closeEpoch) {
+    issues.push({ code: "InvalidEpochRange", field: "closeEpoch", message: "closeEpoch must not precede openEpoch" });
+  }
+
+  const feeBps = parseUint(payload.feeBps ?? 0);
+  if (feeBps === null) {
+    issues.push({ code: "InvalidRequest", field: "feeBps", message: "feeBps must be a non-negative integer" });
+  } else if (feeBps > MAX_FEE_BPS) {
+    issues.push({ code: "FeeTooHigh", field: "feeBps", message: `feeBps must be at most ${MAX_FEE_BPS}` });
+  }
+
+  if (issues.length > 0) return { issues };
+  return {
+    spec: {
+      question: payload.question as QuestionDocument,
+      oracleUri: oracleUri as string | undefined,
+      oracle: oracle as Record<string, unknown> | undefined,
+      openEpoch: openEpoch!,
+      closeEpoch: closeEpoch!,
+      feeBps: feeBps!,
+    },
+  };
+};
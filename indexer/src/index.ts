@@ -1,48 +1,64 @@
 import { ponder } from "ponder:registry";
 import schema from "ponder:schema";
+import { and, eq, gt, lt, ne } from "ponder";
 import { decodeFunctionData, zeroAddress } from "viem";
 import type { Address, Hash } from "viem";
+import {
+  MARKET_STATUS_LABELS,
+  ORDER_TYPE_LABELS,
+  OUTCOME_LABELS,
+  PRICE_SCALE,
+  isStrictOutcome,
+  oppositeOutcome,
+} from "@infinite-markets/sdk/constants";
+import type { DisputeStatus, OrderState, OrderType, Outcome, StrictOutcome } from "@infinite-markets/sdk/constants";
+import { payoutFee, stakeFor } from "@infinite-markets/sdk/math";
 
 import { PredictionMarketAbi } from "../abis/PredictionMarketAbi";
+import type { MetadataKind } from "./metadata";
 
-const PRICE_SCALE = 1_000_000n;
-const MAX_FEE_BPS = 10_000n;
-
-const OUTCOME_LABELS = ["Undefined", "Yes", "No"] as const;
-const ORDER_TYPE_LABELS = ["GoodTilCancel", "ImmediateOrCancel", "FillOrKill"] as const;
-const STATUS_LABELS = ["Draft", "Active", "Paused", "Resolved", "Disputed", "Finalized", "Cancelled"] as const;
-
-type OutcomeLabel = (typeof OUTCOME_LABELS)[number];
-type StrictOutcome = "Yes" | "No";
-type OrderTypeLabel = (typeof ORDER_TYPE_LABELS)[number];
+type StreamKind = "status" | "resolution" | "orderPlaced" | "orderFilled" | "orderCancelled" | "orderExpired";
 
 const ZERO_ADDRESS: Address = zeroAddress;
 
+const CANDLE_INTERVALS = {
+  "1m": 60n,
+  "5m": 300n,
+  "1h": 3_600n,
+  "1d": 86_400n,
+} as const;
+
 const {
   markets,
   orders,
   fills,
+  candles,
   positions,
+  payouts,
   traderApprovals,
   tradingConfig,
+  adminEvents,
   disputes,
+  marketEvents,
+  orderEvents,
+  indexerHead,
+  metadataUris,
+  marketStream,
 } = schema;
 
-const GLOBAL_CONFIG_ID = "global";
-
-const parseOutcome = (value: bigint | number): OutcomeLabel => {
+const parseOutcome = (value: bigint | number): Outcome => {
   const index = Number(value);
   return OUTCOME_LABELS[index] ?? "Undefined";
 };
 
-const parseOrderType = (value: bigint | number): OrderTypeLabel => {
+const parseOrderType = (value: bigint | number): OrderType => {
   const index = Number(value);
   return ORDER_TYPE_LABELS[index] ?? "GoodTilCancel";
 };
 
 const parseStatus = (value: bigint | number): string => {
   const index = Number(value);
-  return STATUS_LABELS[index] ?? "Active";
+  return MARKET_STATUS_LABELS[index] ?? "Active";
 };
 
 const toId = (value: bigint | string): string => {
@@ -52,64 +68,389 @@ const toId = (value: bigint | string): string => {
 
 const toAddress = (value: string): Address => value.toLowerCase() as Address;
 
-const isStrictOutcome = (outcome: OutcomeLabel): outcome is StrictOutcome =>
-  outcome === "Yes" || outcome === "No";
+type HandlerContext = Parameters<Parameters<typeof ponder.on>[1]>[0]["context"];
 
-const opposite = (outcome: StrictOutcome): StrictOutcome => (outcome === "Yes" ? "No" : "Yes");
-
-const stakeFor = (outcome: StrictOutcome, price: bigint, quantity: bigint): bigint => {
-  if (quantity === 0n) return 0n;
-  if (outcome === "Yes") {
-    return (price * quantity) / PRICE_SCALE;
-  }
-  return ((PRICE_SCALE - price) * quantity) / PRICE_SCALE;
+type Scope = {
+  chainId: number;
+  contract: Address;
 };
 
-const upsertTradingConfig = async ({
+// Every row is keyed by deployment (chain and contract), so market and order ids from different deployments
+// never collide.
+const scopeOf = (context: HandlerContext, event: { log: { address: string } }): Scope => ({
+  chainId: context.chain.id,
+  contract: toAddress(event.log.address),
+});
+
+const scopeKey = (scope: Scope) => `${scope.chainId}:${scope.contract}`;
+
+const scopedId = (scope: Scope, value: bigint | string) => `${scopeKey(scope)}:${toId(value)}`;
+
+type ProtocolConfigField =
+  | "approvalRequired"
+  | "paymentToken"
+  | "creationAgent"
+  | "resolutionAgent"
+  | "feeRecipient"
+  | "approvalAuthority";
+
+const setTraderApproval = async ({
   context,
-  approvalRequired,
+  scope,
+  trader,
+  approved,
   blockNumber,
   blockTimestamp,
   transactionHash,
 }: {
-  context: Parameters<Parameters<typeof ponder.on>[1]>[0]["context"];
-  approvalRequired: boolean;
+  context: HandlerContext;
+  scope: Scope;
+  trader: Address;
+  approved: boolean;
   blockNumber: bigint;
   blockTimestamp: bigint;
   transactionHash: Hash;
 }) => {
   await context.db
-    .insert(tradingConfig)
+    .insert(traderApprovals)
     .values({
-      id: GLOBAL_CONFIG_ID,
-      approvalRequired,
+      id: scopedId(scope, trader),
+      ...scope,
+      trader,
+      approved,
       updatedBlock: blockNumber,
       updatedTimestamp: blockTimestamp,
       updatedTransaction: transactionHash,
     })
     .onConflictDoUpdate({
-      approvalRequired,
+      approved,
       updatedBlock: blockNumber,
       updatedTimestamp: blockTimestamp,
       updatedTransaction: transactionHash,
     });
 };
 
+// The constructor sets the agents, fee recipient and approval authority (and allowlists the owner and agents)
+// without emitting events, so the singleton is seeded from contract reads the first time it is needed. The reads are
+// made at the block before the triggering event: admin events carry only the new value, so an admin update that is the
+// first event seen must find the value it replaced, along with the replaced agent or authority the constructor
+// allowlisted. A contract deployed in the event's own block has no earlier state, and is read at that block instead.
+const ensureProtocolConfig = async ({
+  context,
+  scope,
+  blockNumber,
+  blockTimestamp,
+  transactionHash,
+}: {
+  context: HandlerContext;
+  scope: Scope;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  transactionHash: Hash;
+}) => {
+  const existing = await context.db.find(tradingConfig, { id: scopeKey(scope) });
+  if (existing) return existing;
+
+  const address = scope.contract;
+  const deployedBefore =
+    blockNumber > 0n && (await context.client.getCode({ address, blockNumber: blockNumber - 1n })) !== undefined;
+  const seedBlock = deployedBefore ? blockNumber - 1n : blockNumber;
+  const call = { abi: PredictionMarketAbi, address, blockNumber: seedBlock } as const;
+
+  const [
+    owner,
+    approvalRequired,
+    paymentToken,
+    creationAgent,
+    resolutionAgent,
+    feeRecipient,
+    approvalAuthority,
+    disputeWindow,
+    disputeBond,
+  ] = await Promise.all([
+    context.client.readContract({ ...call, functionName: "owner" }),
+    context.client.readContract({ ...call, functionName: "traderApprovalRequired" }),
+    context.client.readContract({ ...call, functionName: "paymentToken" }),
+    context.client.readContract({ ...call, functionName: "creationAgent" }),
+    context.client.readContract({ ...call, functionName: "resolutionAgent" }),
+    context.client.readContract({ ...call, functionName: "feeRecipient" }),
+    context.client.readContract({ ...call, functionName: "approvalAuthority" }),
+    context.client.readContract({ ...call, functionName: "disputeWindow" }),
+    context.client.readContract({ ...call, functionName: "disputeBond" }),
+  ]);
+
+  const config = await context.db.insert(tradingConfig).values({
+    id: scopeKey(scope),
+    ...scope,
+    approvalRequired,
+    paymentToken: toAddress(paymentToken),
+    creationAgent: toAddress(creationAgent),
+    resolutionAgent: toAddress(resolutionAgent),
+    feeRecipient: toAddress(feeRecipient),
+    approvalAuthority: toAddress(approvalAuthority),
+    disputeWindow,
+    disputeBond,
+    updatedBlock: blockNumber,
+    updatedTimestamp: blockTimestamp,
+    updatedTransaction: transactionHash,
+  });
+
+  const implicitlyApproved = new Set([
+    toAddress(owner),
+    config.creationAgent,
+    config.resolutionAgent,
+    config.approvalAuthority,
+  ]);
+  for (const trader of implicitlyApproved) {
+    const approval = await context.db.find(traderApprovals, { id: scopedId(scope, trader) });
+    if (!approval) {
+      await setTraderApproval({ context, scope, trader, approved: true, blockNumber, blockTimestamp, transactionHash });
+    }
+  }
+
+  return config;
+};
+
+const logAdminEvent = async ({
+  context,
+  scope,
+  id,
+  eventName,
+  field,
+  subject = null,
+  previousValue,
+  newValue,
+  blockNumber,
+  blockTimestamp,
+  transactionHash,
+}: {
+  context: HandlerContext;
+  scope: Scope;
+  id: string;
+  eventName: string;
+  field: string;
+  subject?: Address | null;
+  previousValue: string | null;
+  newValue: string;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  transactionHash: Hash;
+}) => {
+  await context.db.insert(adminEvents).values({
+    id,
+    ...scope,
+    eventName,
+    field,
+    subject,
+    previousValue,
+    newValue,
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+};
+
+const updateProtocolConfig = async ({
+  context,
+  scope,
+  id,
+  eventName,
+  field,
+  value,
+  blockNumber,
+  blockTimestamp,
+  transactionHash,
+}: {
+  context: HandlerContext;
+  scope: Scope;
+  id: string;
+  eventName: string;
+  field: ProtocolConfigField;
+  value: Address | boolean;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  transactionHash: Hash;
+}) => {
+  const config = await ensureProtocolConfig({ context, scope, blockNumber, blockTimestamp, transactionHash });
+
+  await context.db.update(tradingConfig, { id: scopeKey(scope) }).set({
+    [field]: value,
+    updatedBlock: blockNumber,
+    updatedTimestamp: blockTimestamp,
+    updatedTransaction: transactionHash,
+  });
+
+  await logAdminEvent({
+    context,
+    scope,
+    id,
+    eventName,
+    field,
+    previousValue: String(config[field]),
+    newValue: String(value),
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+};
+
+// Each market carries its own gap-free sequence so stream subscribers can detect missed messages and resync.
+const appendStreamEvent = async ({
+  context,
+  marketId,
+  kind,
+  payload,
+  blockNumber,
+  blockHash,
+  blockTimestamp,
+  transactionHash,
+}: {
+  context: HandlerContext;
+  marketId: string;
+  kind: StreamKind;
+  payload: Record<string, unknown>;
+  blockNumber: bigint;
+  blockHash: Hash;
+  blockTimestamp: bigint;
+  transactionHash: Hash | null;
+}) => {
+  const market = await context.db.find(markets, { id: marketId });
+  if (!market) {
+    return;
+  }
+
+  const sequence = market.streamSequence + 1n;
+  await context.db.update(markets, { id: marketId }).set({ streamSequence: sequence });
+  await context.db.insert(marketStream).values({
+    id: `${marketId}:${sequence}`,
+    chainId: market.chainId,
+    contract: market.contract,
+    marketId,
+    sequence,
+    kind,
+    payload,
+    blockNumber,
+    blockHash,
+    blockTimestamp,
+    transactionHash,
+  });
+};
+
+// Signed change to the resting quantity of a raw book level (`yes`/`no` keyed by maker position).
+const bookDelta = (position: StrictOutcome, price: bigint, remaining: bigint) => ({
+  side: position === "Yes" ? "yes" : "no",
+  price: price.toString(),
+  remaining: remaining.toString(),
+});
+
+const recordMarketEvent = async ({
+  context,
+  scope,
+  id,
+  marketId,
+  eventName,
+  previousStatus,
+  newStatus,
+  actor,
+  outcome = null,
+  resolutionUri = null,
+  evidenceUri = null,
+  blockNumber,
+  blockHash,
+  blockTimestamp,
+  transactionHash,
+}: {
+  context: HandlerContext;
+  scope: Scope;
+  id: string;
+  marketId: string;
+  eventName: string;
+  previousStatus: string | null;
+  newStatus: string;
+  actor: Address;
+  outcome?: Outcome | null;
+  resolutionUri?: string | null;
+  evidenceUri?: string | null;
+  blockNumber: bigint;
+  blockHash: Hash;
+  blockTimestamp: bigint;
+  transactionHash: Hash;
+}) => {
+  await context.db.insert(marketEvents).values({
+    id,
+    ...scope,
+    marketId,
+    eventName,
+    previousStatus,
+    newStatus,
+    actor,
+    outcome,
+    resolutionUri,
+    evidenceUri,
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+
+  await appendStreamEvent({
+    context,
+    marketId,
+    kind: eventName === "MarketResolved" ? "resolution" : "status",
+    payload: {
+      eventName,
+      previousStatus,
+      status: newStatus,
+      outcome,
+      resolutionUri,
+      evidenceUri,
+    },
+    blockNumber,
+    blockHash,
+    blockTimestamp,
+    transactionHash,
+  });
+};
+
+const closeDispute = async ({
+  context,
+  disputeId,
+  status,
+  blockTimestamp,
+  transactionHash,
+}: {
+  context: HandlerContext;
+  disputeId: string | null;
+  status: DisputeStatus;
+  blockTimestamp: bigint;
+  transactionHash: Hash;
+}) => {
+  if (!disputeId) return;
+  await context.db.update(disputes, { id: disputeId }).set({
+    status,
+    closedAt: blockTimestamp,
+    closedTransaction: transactionHash,
+  });
+};
+
 const incrementPosition = async ({
   context,
+  scope,
   marketId,
   trader,
   outcome,
   quantity,
+  cost,
   blockNumber,
   blockTimestamp,
   transactionHash,
 }: {
-  context: Parameters<Parameters<typeof ponder.on>[1]>[0]["context"];
+  context: HandlerContext;
+  scope: Scope;
   marketId: string;
   trader: Address;
   outcome: StrictOutcome;
   quantity: bigint;
+  cost: bigint;
   blockNumber: bigint;
   blockTimestamp: bigint;
   transactionHash: Hash;
@@ -119,35 +460,95 @@ const incrementPosition = async ({
     .insert(positions)
     .values({
       id,
+      ...scope,
       marketId,
       trader,
       outcome,
       shares: quantity,
+      costBasis: cost,
+      realizedPnl: 0n,
       updatedBlock: blockNumber,
       updatedTimestamp: blockTimestamp,
       updatedTransaction: transactionHash,
     })
     .onConflictDoUpdate((row) => ({
       shares: row.shares + quantity,
+      costBasis: row.costBasis + cost,
       updatedBlock: blockNumber,
       updatedTimestamp: blockTimestamp,
       updatedTransaction: transactionHash,
     }));
 };
 
+// Fill prices are Yes-denominated, so candles chart the Yes probability regardless of the maker side.
+// Collateral volume counts the taker stake, the amount each fill pulls into the contract.
+const recordCandles = async ({
+  context,
+  scope,
+  marketId,
+  price,
+  quantity,
+  collateral,
+  blockNumber,
+  blockTimestamp,
+}: {
+  context: HandlerContext;
+  scope: Scope;
+  marketId: string;
+  price: bigint;
+  quantity: bigint;
+  collateral: bigint;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+}) => {
+  for (const [interval, seconds] of Object.entries(CANDLE_INTERVALS)) {
+    const bucketStart = blockTimestamp - (blockTimestamp % seconds);
+    await context.db
+      .insert(candles)
+      .values({
+        id: `${marketId}:${interval}:${bucketStart}`,
+        ...scope,
+        marketId,
+        interval,
+        bucketStart,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volumeShares: quantity,
+        volumeCollateral: collateral,
+        trades: 1,
+        updatedBlock: blockNumber,
+      })
+      .onConflictDoUpdate((row) => ({
+        high: price > row.high ? price : row.high,
+        low: price < row.low ? price : row.low,
+        close: price,
+        volumeShares: row.volumeShares + quantity,
+        volumeCollateral: row.volumeCollateral + collateral,
+        trades: row.trades + 1,
+        updatedBlock: blockNumber,
+      }));
+  }
+};
+
 const resetPosition = async ({
   context,
+  scope,
   marketId,
   trader,
   outcome,
+  netPayout,
   blockNumber,
   blockTimestamp,
   transactionHash,
 }: {
-  context: Parameters<Parameters<typeof ponder.on>[1]>[0]["context"];
+  context: HandlerContext;
+  scope: Scope;
   marketId: string;
   trader: Address;
   outcome: StrictOutcome;
+  netPayout: bigint;
   blockNumber: bigint;
   blockTimestamp: bigint;
   transactionHash: Hash;
@@ -157,24 +558,55 @@ const resetPosition = async ({
     .insert(positions)
     .values({
       id,
+      ...scope,
       marketId,
       trader,
       outcome,
       shares: 0n,
+      costBasis: 0n,
+      realizedPnl: netPayout,
       updatedBlock: blockNumber,
       updatedTimestamp: blockTimestamp,
       updatedTransaction: transactionHash,
     })
-    .onConflictDoUpdate({
+    .onConflictDoUpdate((row) => ({
       shares: 0n,
+      costBasis: 0n,
+      realizedPnl: row.realizedPnl + netPayout - row.costBasis,
       updatedBlock: blockNumber,
       updatedTimestamp: blockTimestamp,
       updatedTransaction: transactionHash,
-    });
+    }));
+};
+
+// Handlers only record the URIs events reference, never their documents: fetching here would make indexing wait on
+// gateways and let a replay write whatever the URI serves by then. The metadata worker resolves the recorded URIs.
+const recordMetadataUri = async ({
+  context,
+  uri,
+  kind,
+  blockNumber,
+  blockTimestamp,
+}: {
+  context: HandlerContext;
+  uri: string;
+  kind: MetadataKind;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+}) => {
+  if (uri === "") {
+    return;
+  }
+
+  await context.db
+    .insert(metadataUris)
+    .values({ uri, kind, firstSeenBlock: blockNumber, firstSeenTimestamp: blockTimestamp })
+    .onConflictDoNothing();
 };
 
 ponder.on("PredictionMarket:MarketCreated", async ({ event, context }) => {
-  const marketId = toId(String(event.args.marketId));
+  const scope = scopeOf(context, event);
+  const marketId = scopedId(scope, String(event.args.marketId));
   const creator = toAddress(event.args.creator as string);
   const questionUri = event.args.questionURI as string;
   const oracleUri = event.args.oracleURI as string;
@@ -182,10 +614,20 @@ ponder.on("PredictionMarket:MarketCreated", async ({ event, context }) => {
   const closeEpoch = BigInt(String(event.args.closeEpoch));
   const feeBps = BigInt(String(event.args.feeBps));
 
+  await ensureProtocolConfig({
+    context,
+    scope,
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
   await context.db
     .insert(markets)
     .values({
       id: marketId,
+      ...scope,
+      onchainId: toId(String(event.args.marketId)),
       status: "Active",
       outcome: "Undefined",
       openEpoch,
@@ -198,15 +640,23 @@ ponder.on("PredictionMarket:MarketCreated", async ({ event, context }) => {
       creator,
       resolver: null,
       totalCollateral: 0n,
+      openInterest: 0n,
+      realizedFees: 0n,
+      lastTradeTimestamp: null,
+      streamSequence: 0n,
       disputeActive: false,
       disputeOpenedAt: null,
       disputeBond: null,
+      disputeId: null,
       createdBlock: event.block.number,
       createdTimestamp: event.block.timestamp,
       updatedBlock: event.block.number,
       updatedTimestamp: event.block.timestamp,
       lastTransactionHash: event.transaction.hash,
       resolvedAt: null,
+      resolutionBlockTimestamp: null,
+      resolvedAtOverridden: null,
+      disputeDeadline: null,
       finalizedAt: null,
     })
     .onConflictDoUpdate({
@@ -221,16 +671,51 @@ ponder.on("PredictionMarket:MarketCreated", async ({ event, context }) => {
       disputeActive: false,
       disputeOpenedAt: null,
       disputeBond: null,
+      disputeId: null,
       updatedBlock: event.block.number,
       updatedTimestamp: event.block.timestamp,
       lastTransactionHash: event.transaction.hash,
     });
+
+  await recordMarketEvent({
+    context,
+    scope,
+    id: event.id,
+    marketId,
+    eventName: "MarketCreated",
+    previousStatus: null,
+    newStatus: "Active",
+    actor: creator,
+    blockNumber: event.block.number,
+    blockHash: event.block.hash,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  await recordMetadataUri({
+    context,
+    uri: questionUri,
+    kind: "question",
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+  });
+
+  await recordMetadataUri({
+    context,
+    uri: oracleUri,
+    kind: "oracle",
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+  });
 });
 
 ponder.on("PredictionMarket:MarketStatusUpdated", async ({ event, context }) => {
-  const marketId = toId(String(event.args.marketId));
+  const scope = scopeOf(context, event);
+  const marketId = scopedId(scope, String(event.args.marketId));
   const status = parseStatus(Number(event.args.status));
 
+  const previous = await context.db.find(markets, { id: marketId });
+
   await context.db
     .update(markets, { id: marketId })
     .set({
@@ -239,15 +724,72 @@ ponder.on("PredictionMarket:MarketStatusUpdated", async ({ event, context }) =>
       updatedTimestamp: event.block.timestamp,
       lastTransactionHash: event.transaction.hash,
     });
+
+  await recordMarketEvent({
+    context,
+    scope,
+    id: event.id,
+    marketId,
+    eventName: "MarketStatusUpdated",
+    previousStatus: previous?.status ?? null,
+    newStatus: status,
+    actor: toAddress(event.transaction.from),
+    blockNumber: event.block.number,
+    blockHash: event.block.hash,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
 });
 
 ponder.on("PredictionMarket:MarketResolved", async ({ event, context }) => {
-  const marketId = toId(String(event.args.marketId));
+  const scope = scopeOf(context, event);
+  const marketId = scopedId(scope, String(event.args.marketId));
   const outcome = parseOutcome(Number(event.args.outcome));
   const resolver = toAddress(event.args.resolver as string);
   const resolutionUri = event.args.resolutionURI as string;
   const evidenceUri = event.args.evidenceURI as string;
 
+  const previous = await context.db.find(markets, { id: marketId });
+  const config = await ensureProtocolConfig({
+    context,
+    scope,
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  // resolveMarket lets the agent supply `resolvedAt` (0 means block.timestamp); it anchors the dispute window.
+  let resolvedAt = event.block.timestamp;
+
+  try {
+    const decoded = decodeFunctionData({
+      abi: PredictionMarketAbi,
+      data: event.transaction.input,
+    });
+
+    if (decoded.functionName === "resolveMarket") {
+      const [calledMarketId, resolution] = decoded.args as readonly [
+        bigint,
+        {
+          resolvedAt: bigint;
+        }
+      ];
+      const suppliedAt = BigInt(resolution.resolvedAt);
+      if (scopedId(scope, calledMarketId) === marketId && suppliedAt > 0n) {
+        resolvedAt = suppliedAt;
+      }
+    }
+  } catch (error) {
+    console.warn(`Failed to decode resolveMarket calldata for market ${marketId}:`, error);
+  }
+
+  const resolvedAtOverridden = resolvedAt !== event.block.timestamp;
+  if (resolvedAtOverridden) {
+    console.warn(
+      `Market ${marketId} resolved with resolvedAt ${resolvedAt} in a block at ${event.block.timestamp}.`,
+    );
+  }
+
   await context.db
     .update(markets, { id: marketId })
     .set({
@@ -256,24 +798,71 @@ ponder.on("PredictionMarket:MarketResolved", async ({ event, context }) => {
       resolver,
       resolutionUri,
       evidenceUri,
-      resolvedAt: event.block.timestamp,
+      resolvedAt,
+      resolutionBlockTimestamp: event.block.timestamp,
+      resolvedAtOverridden,
+      disputeDeadline: resolvedAt + config.disputeWindow,
       disputeActive: false,
       disputeBond: null,
       disputeOpenedAt: null,
+      disputeId: null,
       updatedBlock: event.block.number,
       updatedTimestamp: event.block.timestamp,
       lastTransactionHash: event.transaction.hash,
     });
 
-  await context.db.delete(disputes, { marketId });
+  await closeDispute({
+    context,
+    disputeId: previous?.disputeId ?? null,
+    status: "superseded",
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  await recordMarketEvent({
+    context,
+    scope,
+    id: event.id,
+    marketId,
+    eventName: "MarketResolved",
+    previousStatus: previous?.status ?? null,
+    newStatus: "Resolved",
+    actor: resolver,
+    outcome,
+    resolutionUri,
+    evidenceUri,
+    blockNumber: event.block.number,
+    blockHash: event.block.hash,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  await recordMetadataUri({
+    context,
+    uri: resolutionUri,
+    kind: "resolution",
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+  });
+
+  await recordMetadataUri({
+    context,
+    uri: evidenceUri,
+    kind: "evidence",
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+  });
 });
 
 ponder.on("PredictionMarket:MarketDisputed", async ({ event, context }) => {
-  const marketId = toId(String(event.args.marketId));
+  const scope = scopeOf(context, event);
+  const marketId = scopedId(scope, String(event.args.marketId));
   const evidenceUri = event.args.evidenceURI as string;
   const bondAmount = BigInt(String(event.args.bondAmount));
   const disputant = toAddress(event.args.disputant as string);
 
+  const previous = await context.db.find(markets, { id: marketId });
+
   await context.db
     .update(markets, { id: marketId })
     .set({
@@ -281,36 +870,60 @@ ponder.on("PredictionMarket:MarketDisputed", async ({ event, context }) => {
       disputeActive: true,
       disputeOpenedAt: event.block.timestamp,
       disputeBond: bondAmount,
+      disputeId: event.id,
       updatedBlock: event.block.number,
       updatedTimestamp: event.block.timestamp,
       lastTransactionHash: event.transaction.hash,
     });
 
-  await context.db
-    .insert(disputes)
-    .values({
-      marketId,
-      evidenceUri,
-      bondAmount,
-      openedAt: event.block.timestamp,
-      disputant,
-      blockNumber: event.block.number,
-      blockTimestamp: event.block.timestamp,
-      transactionHash: event.transaction.hash as Hash,
-    })
-    .onConflictDoUpdate({
-      evidenceUri,
-      bondAmount,
-      openedAt: event.block.timestamp,
-      disputant,
-      blockNumber: event.block.number,
-      blockTimestamp: event.block.timestamp,
-      transactionHash: event.transaction.hash as Hash,
-    });
+  await context.db.insert(disputes).values({
+    id: event.id,
+    ...scope,
+    marketId,
+    evidenceUri,
+    bondAmount,
+    openedAt: event.block.timestamp,
+    disputant,
+    status: "open",
+    closedAt: null,
+    closedTransaction: null,
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  await recordMarketEvent({
+    context,
+    scope,
+    id: event.id,
+    marketId,
+    eventName: "MarketDisputed",
+    previousStatus: previous?.status ?? null,
+    newStatus: "Disputed",
+    actor: disputant,
+    evidenceUri,
+    blockNumber: event.block.number,
+    blockHash: event.block.hash,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  await recordMetadataUri({
+    context,
+    uri: evidenceUri,
+    kind: "evidence",
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+  });
 });
 
 ponder.on("PredictionMarket:MarketFinalized", async ({ event, context }) => {
-  const marketId = toId(String(event.args.marketId));
+  const scope = scopeOf(context, event);
+  const marketId = scopedId(scope, String(event.args.marketId));
+  const outcome = parseOutcome(Number(event.args.outcome));
+  const resolutionUri = event.args.resolutionURI as string;
+
+  const previous = await context.db.find(markets, { id: marketId });
 
   await context.db
     .update(markets, { id: marketId })
@@ -320,17 +933,42 @@ ponder.on("PredictionMarket:MarketFinalized", async ({ event, context }) => {
       disputeActive: false,
       disputeOpenedAt: null,
       disputeBond: null,
+      disputeId: null,
       updatedBlock: event.block.number,
       updatedTimestamp: event.block.timestamp,
       lastTransactionHash: event.transaction.hash,
     });
 
-  await context.db.delete(disputes, { marketId });
+  await closeDispute({
+    context,
+    disputeId: previous?.disputeId ?? null,
+    status: "finalized",
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  await recordMarketEvent({
+    context,
+    scope,
+    id: event.id,
+    marketId,
+    eventName: "MarketFinalized",
+    previousStatus: previous?.status ?? null,
+    newStatus: "Finalized",
+    actor: toAddress(event.transaction.from),
+    outcome,
+    resolutionUri,
+    blockNumber: event.block.number,
+    blockHash: event.block.hash,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
 });
 
 ponder.on("PredictionMarket:OrderPlaced", async ({ event, context }) => {
-  const orderId = toId(String(event.args.orderId));
-  const marketId = toId(String(event.args.marketId));
+  const scope = scopeOf(context, event);
+  const orderId = scopedId(scope, String(event.args.orderId));
+  const marketId = scopedId(scope, String(event.args.marketId));
   const owner = toAddress(event.args.trader as string);
   const position = parseOutcome(Number(event.args.position));
   const price = BigInt(String(event.args.price));
@@ -367,6 +1005,8 @@ ponder.on("PredictionMarket:OrderPlaced", async ({ event, context }) => {
 
   await context.db.insert(orders).values({
     id: orderId,
+    ...scope,
+    onchainId: toId(String(event.args.orderId)),
     marketId,
     owner,
     beneficiary,
@@ -377,6 +1017,7 @@ ponder.on("PredictionMarket:OrderPlaced", async ({ event, context }) => {
     orderType,
     expirationEpoch,
     active: true,
+    state: "open",
     createdBlock: event.block.number,
     createdTimestamp: event.block.timestamp,
     createdTransaction: event.transaction.hash as Hash,
@@ -386,13 +1027,46 @@ ponder.on("PredictionMarket:OrderPlaced", async ({ event, context }) => {
     lastFillBlock: null,
     lastFillTimestamp: null,
   });
+
+  await context.db.insert(orderEvents).values({
+    id: event.id,
+    ...scope,
+    orderId,
+    marketId,
+    kind: "placed",
+    quantity,
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  await appendStreamEvent({
+    context,
+    marketId,
+    kind: "orderPlaced",
+    payload: {
+      orderId: toId(String(event.args.orderId)),
+      owner,
+      position,
+      price: price.toString(),
+      quantity: quantity.toString(),
+      orderType,
+      expirationEpoch: expirationEpoch.toString(),
+      bookDelta: bookDelta(position, price, quantity),
+    },
+    blockNumber: event.block.number,
+    blockHash: event.block.hash,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
 });
 
 ponder.on("PredictionMarket:OrderFilled", async ({ event, context }) => {
-  const orderId = toId(String(event.args.orderId));
-  const marketId = toId(String(event.args.marketId));
+  const scope = scopeOf(context, event);
+  const orderId = scopedId(scope, String(event.args.orderId));
+  const marketId = scopedId(scope, String(event.args.marketId));
   const quantityFilled = BigInt(String(event.args.quantity));
-  const fee = BigInt(String(event.args.fee));
+  const reportedFee = BigInt(String(event.args.fee));
   const filler = toAddress(event.args.filler as string);
   const takerRecipient = toAddress(event.args.recipient as string);
   const blockNumber = event.block.number;
@@ -406,18 +1080,20 @@ ponder.on("PredictionMarket:OrderFilled", async ({ event, context }) => {
     return;
   }
 
-  const makerOutcome = orderRow.position as OutcomeLabel;
+  const makerOutcome = orderRow.position as Outcome;
   if (!isStrictOutcome(makerOutcome)) {
     throw new Error(`Unexpected maker outcome for order ${orderId}: ${makerOutcome}`);
   }
-  const takerOutcome = opposite(makerOutcome);
+  const takerOutcome = oppositeOutcome(makerOutcome);
   const makerBeneficiary = toAddress(orderRow.beneficiary as string);
   const newFilled = orderRow.filled + quantityFilled;
   const stillActive = newFilled < orderRow.quantity;
+  const state: OrderState = stillActive ? "partiallyFilled" : "filled";
 
   await context.db.update(orders, { id: orderId }).set({
     filled: newFilled,
     active: stillActive,
+    state,
     updatedBlock: blockNumber,
     updatedTimestamp: blockTimestamp,
     updatedTransaction: transactionHash,
@@ -425,17 +1101,19 @@ ponder.on("PredictionMarket:OrderFilled", async ({ event, context }) => {
     lastFillTimestamp: blockTimestamp,
   });
 
-  await context.db.update(markets, { id: marketId }).set((row) => ({
+  const market = await context.db.update(markets, { id: marketId }).set((row) => ({
     totalCollateral: row.totalCollateral + quantityFilled,
+    openInterest: row.openInterest + quantityFilled,
+    lastTradeTimestamp: blockTimestamp,
     updatedBlock: blockNumber,
     updatedTimestamp: blockTimestamp,
     lastTransactionHash: transactionHash,
   }));
 
   const takerCost = stakeFor(takerOutcome, orderRow.price, quantityFilled);
-
   await context.db.insert(fills).values({
     id: event.id,
+    ...scope,
     orderId,
     marketId,
     makerPosition: makerOutcome,
@@ -444,7 +1122,9 @@ ponder.on("PredictionMarket:OrderFilled", async ({ event, context }) => {
     recipient: takerRecipient,
     quantity: quantityFilled,
     price: orderRow.price,
-    fee,
+    reportedFee,
+    netPayoutPerShare: PRICE_SCALE - payoutFee(PRICE_SCALE, market.feeBps),
+    expectedNetPayout: quantityFilled - payoutFee(quantityFilled, market.feeBps),
     cost: takerCost,
     blockNumber,
     blockTimestamp,
@@ -452,12 +1132,25 @@ ponder.on("PredictionMarket:OrderFilled", async ({ event, context }) => {
     logIndex,
   });
 
+  await recordCandles({
+    context,
+    scope,
+    marketId,
+    price: orderRow.price,
+    quantity: quantityFilled,
+    collateral: takerCost,
+    blockNumber,
+    blockTimestamp,
+  });
+
   await incrementPosition({
     context,
+    scope,
     marketId,
     trader: makerBeneficiary,
     outcome: makerOutcome,
     quantity: quantityFilled,
+    cost: stakeFor(makerOutcome, orderRow.price, quantityFilled),
     blockNumber,
     blockTimestamp,
     transactionHash,
@@ -465,18 +1158,43 @@ ponder.on("PredictionMarket:OrderFilled", async ({ event, context }) => {
 
   await incrementPosition({
     context,
+    scope,
     marketId,
     trader: takerRecipient,
     outcome: takerOutcome,
     quantity: quantityFilled,
+    cost: takerCost,
     blockNumber,
     blockTimestamp,
     transactionHash,
   });
+
+  await appendStreamEvent({
+    context,
+    marketId,
+    kind: "orderFilled",
+    payload: {
+      orderId: orderRow.onchainId,
+      fillId: event.id,
+      makerPosition: makerOutcome,
+      takerOutcome,
+      filler,
+      recipient: takerRecipient,
+      price: orderRow.price.toString(),
+      quantity: quantityFilled.toString(),
+      remaining: (orderRow.quantity - newFilled).toString(),
+      bookDelta: bookDelta(makerOutcome, orderRow.price, -quantityFilled),
+    },
+    blockNumber,
+    blockHash: event.block.hash,
+    blockTimestamp,
+    transactionHash,
+  });
 });
 
 ponder.on("PredictionMarket:OrderCancelled", async ({ event, context }) => {
-  const orderId = toId(String(event.args.orderId));
+  const scope = scopeOf(context, event);
+  const orderId = scopedId(scope, String(event.args.orderId));
   const remainingQuantity = BigInt(String(event.args.remainingQuantity));
 
   const orderRow = await context.db.find(orders, { id: orderId });
@@ -488,27 +1206,90 @@ ponder.on("PredictionMarket:OrderCancelled", async ({ event, context }) => {
 
   await context.db.update(orders, { id: orderId }).set({
     active: false,
+    state: "cancelled",
     filled: newFilled,
     updatedBlock: event.block.number,
     updatedTimestamp: event.block.timestamp,
     updatedTransaction: event.transaction.hash as Hash,
   });
+
+  await context.db.insert(orderEvents).values({
+    id: event.id,
+    ...scope,
+    orderId,
+    marketId: orderRow.marketId,
+    kind: "cancelled",
+    quantity: remainingQuantity,
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
+  // Expired orders already left the book when the head passed their expiration.
+  const position = orderRow.position as StrictOutcome;
+  await appendStreamEvent({
+    context,
+    marketId: orderRow.marketId,
+    kind: "orderCancelled",
+    payload: {
+      orderId: orderRow.onchainId,
+      position,
+      price: orderRow.price.toString(),
+      remainingQuantity: remainingQuantity.toString(),
+      bookDelta: orderRow.state === "expired" ? null : bookDelta(position, orderRow.price, -remainingQuantity),
+    },
+    blockNumber: event.block.number,
+    blockHash: event.block.hash,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
 });
 
 ponder.on("PredictionMarket:PayoutClaimed", async ({ event, context }) => {
-  const marketId = toId(String(event.args.marketId));
+  const scope = scopeOf(context, event);
+  const marketId = scopedId(scope, String(event.args.marketId));
   const claimant = toAddress(event.args.claimant as string);
   const outcome = parseOutcome(Number(event.args.position));
+  const payout = BigInt(String(event.args.amount));
 
   if (!isStrictOutcome(outcome)) {
     return;
   }
 
+  const market = await context.db.find(markets, { id: marketId });
+  const fee = market ? payoutFee(payout, market.feeBps) : 0n;
+  if (market) {
+    // Each matched pair locks one unit of collateral until the winning share is redeemed.
+    await context.db.update(markets, { id: marketId }).set((row) => ({
+      realizedFees: row.realizedFees + fee,
+      openInterest: row.openInterest > payout ? row.openInterest - payout : 0n,
+      updatedBlock: event.block.number,
+      updatedTimestamp: event.block.timestamp,
+      lastTransactionHash: event.transaction.hash,
+    }));
+  }
+
+  await context.db.insert(payouts).values({
+    id: event.id,
+    ...scope,
+    marketId,
+    claimant,
+    outcome,
+    grossAmount: payout,
+    fee,
+    netAmount: payout - fee,
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+
   await resetPosition({
     context,
+    scope,
     marketId,
     trader: claimant,
     outcome,
+    netPayout: payout - fee,
     blockNumber: event.block.number,
     blockTimestamp: event.block.timestamp,
     transactionHash: event.transaction.hash as Hash,
@@ -516,10 +1297,14 @@ ponder.on("PredictionMarket:PayoutClaimed", async ({ event, context }) => {
 });
 
 ponder.on("PredictionMarket:TraderApprovalRequirementUpdated", async ({ event, context }) => {
-  const approvalRequired = Boolean(event.args.required);
-  await upsertTradingConfig({
+  const scope = scopeOf(context, event);
+  await updateProtocolConfig({
     context,
-    approvalRequired,
+    scope,
+    id: event.id,
+    eventName: "TraderApprovalRequirementUpdated",
+    field: "approvalRequired",
+    value: Boolean(event.args.required),
     blockNumber: event.block.number,
     blockTimestamp: event.block.timestamp,
     transactionHash: event.transaction.hash as Hash,
@@ -527,22 +1312,208 @@ ponder.on("PredictionMarket:TraderApprovalRequirementUpdated", async ({ event, c
 });
 
 ponder.on("PredictionMarket:TraderApprovalUpdated", async ({ event, context }) => {
+  const scope = scopeOf(context, event);
   const trader = toAddress(event.args.trader as string);
   const approved = Boolean(event.args.approved);
+  const blockNumber = event.block.number;
+  const blockTimestamp = event.block.timestamp;
+  const transactionHash = event.transaction.hash as Hash;
+
+  await ensureProtocolConfig({ context, scope, blockNumber, blockTimestamp, transactionHash });
+  const previous = await context.db.find(traderApprovals, { id: scopedId(scope, trader) });
+
+  await setTraderApproval({ context, scope, trader, approved, blockNumber, blockTimestamp, transactionHash });
+
+  await logAdminEvent({
+    context,
+    scope,
+    id: event.id,
+    eventName: "TraderApprovalUpdated",
+    field: "approved",
+    subject: trader,
+    previousValue: previous ? String(previous.approved) : null,
+    newValue: String(approved),
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+});
+
+ponder.on("PredictionMarket:PaymentTokenUpdated", async ({ event, context }) => {
+  const scope = scopeOf(context, event);
+  await updateProtocolConfig({
+    context,
+    scope,
+    id: event.id,
+    eventName: "PaymentTokenUpdated",
+    field: "paymentToken",
+    value: toAddress(event.args.token as string),
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+});
+
+ponder.on("PredictionMarket:FeeRecipientUpdated", async ({ event, context }) => {
+  const scope = scopeOf(context, event);
+  await updateProtocolConfig({
+    context,
+    scope,
+    id: event.id,
+    eventName: "FeeRecipientUpdated",
+    field: "feeRecipient",
+    value: toAddress(event.args.recipient as string),
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash as Hash,
+  });
+});
+
+// Rotating an agent or the approval authority also allowlists the new address without a TraderApprovalUpdated event.
+ponder.on("PredictionMarket:CreationAgentUpdated", async ({ event, context }) => {
+  const scope = scopeOf(context, event);
+  const creationAgent = toAddress(event.args.agent as string);
+  const blockNumber = event.block.number;
+  const blockTimestamp = event.block.timestamp;
+  const transactionHash = event.transaction.hash as Hash;
+
+  await updateProtocolConfig({
+    context,
+    scope,
+    id: event.id,
+    eventName: "CreationAgentUpdated",
+    field: "creationAgent",
+    value: creationAgent,
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+  await setTraderApproval({
+    context,
+    scope,
+    trader: creationAgent,
+    approved: true,
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+});
 
+ponder.on("PredictionMarket:ResolutionAgentUpdated", async ({ event, context }) => {
+  const scope = scopeOf(context, event);
+  const resolutionAgent = toAddress(event.args.agent as string);
+  const blockNumber = event.block.number;
+  const blockTimestamp = event.block.timestamp;
+  const transactionHash = event.transaction.hash as Hash;
+
+  await updateProtocolConfig({
+    context,
+    scope,
+    id: event.id,
+    eventName: "ResolutionAgentUpdated",
+    field: "resolutionAgent",
+    value: resolutionAgent,
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+  await setTraderApproval({
+    context,
+    scope,
+    trader: resolutionAgent,
+    approved: true,
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+});
+
+ponder.on("PredictionMarket:TraderApprovalAuthorityUpdated", async ({ event, context }) => {
+  const scope = scopeOf(context, event);
+  const approvalAuthority = toAddress(event.args.authority as string);
+  const blockNumber = event.block.number;
+  const blockTimestamp = event.block.timestamp;
+  const transactionHash = event.transaction.hash as Hash;
+
+  await updateProtocolConfig({
+    context,
+    scope,
+    id: event.id,
+    eventName: "TraderApprovalAuthorityUpdated",
+    field: "approvalAuthority",
+    value: approvalAuthority,
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+  await setTraderApproval({
+    context,
+    scope,
+    trader: approvalAuthority,
+    approved: true,
+    blockNumber,
+    blockTimestamp,
+    transactionHash,
+  });
+});
+
+ponder.on("ChainHead:block", async ({ event, context }) => {
   await context.db
-    .insert(traderApprovals)
+    .insert(indexerHead)
     .values({
-      trader,
-      approved,
-      updatedBlock: event.block.number,
-      updatedTimestamp: event.block.timestamp,
-      updatedTransaction: event.transaction.hash as Hash,
+      id: String(context.chain.id),
+      chainId: context.chain.id,
+      blockNumber: event.block.number,
+      blockTimestamp: event.block.timestamp,
     })
     .onConflictDoUpdate({
-      approved,
-      updatedBlock: event.block.number,
-      updatedTimestamp: event.block.timestamp,
-      updatedTransaction: event.transaction.hash as Hash,
+      blockNumber: event.block.number,
+      blockTimestamp: event.block.timestamp,
+    });
+
+  // Expiry is not signalled by an event; orders stay `active` on-chain (and cancellable) but can no longer be filled.
+  const expiring = and(
+    eq(orders.chainId, context.chain.id),
+    eq(orders.active, true),
+    ne(orders.state, "expired"),
+    gt(orders.expirationEpoch, 0n),
+    lt(orders.expirationEpoch, event.block.timestamp),
+  );
+
+  const expired = await context.db.sql
+    .select({
+      onchainId: orders.onchainId,
+      marketId: orders.marketId,
+      position: orders.position,
+      price: orders.price,
+      quantity: orders.quantity,
+      filled: orders.filled,
+    })
+    .from(orders)
+    .where(expiring);
+
+  if (expired.length === 0) {
+    return;
+  }
+
+  await context.db.sql.update(orders).set({ state: "expired" }).where(expiring);
+
+  for (const order of expired) {
+    const position = order.position as StrictOutcome;
+    await appendStreamEvent({
+      context,
+      marketId: order.marketId,
+      kind: "orderExpired",
+      payload: {
+        orderId: order.onchainId,
+        position,
+        price: order.price.toString(),
+        bookDelta: bookDelta(position, order.price, order.filled - order.quantity),
+      },
+      blockNumber: event.block.number,
+      blockHash: event.block.hash,
+      blockTimestamp: event.block.timestamp,
+      transactionHash: null,
     });
+  }
 });
@@ -0,0 +1,152 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+export type FetchedDocument = {
+  body: string;
+  contentType: string | null;
+  source: string;
+};
+
+export interface MetadataGateway {
+  readonly name: string;
+  supports(uri: string): boolean;
+  fetch(uri: string): Promise<FetchedDocument>;
+}
+
+const DEFAULT_IPFS_GATEWAYS = ["https://ipfs.io/ipfs/", "https://dweb.link/ipfs/"];
+const DEFAULT_TIMEOUT_MS = 5_000;
+const DEFAULT_MAX_BYTES = 256 * 1024;
+
+const schemeOf = (uri: string): string => uri.slice(0, uri.indexOf(":") + 1).toLowerCase();
+
+export const fetchWithLimits = async (
+  url: string,
+  { timeoutMs, maxBytes }: { timeoutMs: number; maxBytes: number },
+): Promise<FetchedDocument> => {
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}`);
+  }
+
+  const declaredLength = Number(response.headers.get("content-length") ?? 0);
+  if (declaredLength > maxBytes) {
+    throw new Error(`${url} is ${declaredLength} bytes, above the ${maxBytes} byte limit`);
+  }
+
+  const body = await response.text();
+  if (Buffer.byteLength(body) > maxBytes) {
+    throw new Error(`${url} exceeded the ${maxBytes} byte limit`);
+  }
+
+  return { body, contentType: response.headers.get("content-type"), source: url };
+};
+
+export const httpGateway = (options: { timeoutMs: number; maxBytes: number }): MetadataGateway => ({
+  name: "http",
+  supports: (uri) => schemeOf(uri) === "https:" || schemeOf(uri) === "http:",
+  fetch: (uri) => fetchWithLimits(uri, options),
+});
+
+// Gateways are tried in order; the first one that answers wins.
+export const ipfsGateway = (
+  gateways: string[],
+  options: { timeoutMs: number; maxBytes: number },
+): MetadataGateway => ({
+  name: "ipfs",
+  supports: (uri) => schemeOf(uri) === "ipfs:",
+  fetch: async (uri) => {
+    const cidPath = uri.replace(/^ipfs:\/\/(ipfs\/)?/i, "");
+    const failures: string[] = [];
+
+    for (const gateway of gateways) {
+      const base = gateway.endsWith("/") ? gateway : `${gateway}/`;
+      try {
+        return await fetchWithLimits(`${base}${cidPath}`, options);
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    throw new Error(`No IPFS gateway served ${uri}: ${failures.join("; ")}`);
+  },
+});
+
+export const dataUriGateway = (options: { maxBytes: number }): MetadataGateway => ({
+  name: "data",
+  supports: (uri) => schemeOf(uri) === "data:",
+  fetch: async (uri) => {
+    const comma = uri.indexOf(",");
+    if (comma === -1) {
+      throw new Error("Malformed data URI");
+    }
+
+    const header = uri.slice("data:".length, comma);
+    const payload = uri.slice(comma + 1);
+    const isBase64 = header.endsWith(";base64");
+    const contentType = (isBase64 ? header.slice(0, -";base64".length) : header) || "text/plain";
+    const body = isBase64
+      ? Buffer.from(payload, "base64").toString("utf8")
+      : decodeURIComponent(payload);
+
+    if (Buffer.byteLength(body) > options.maxBytes) {
+      throw new Error(`data URI exceeded the ${options.maxBytes} byte limit`);
+    }
+
+    return { body, contentType, source: "data" };
+  },
+});
+
+// Serves documents from a directory laid out as `<root>/<scheme>/<rest of uri>`, e.g. `ipfs://bafy...` is read from
+// `<root>/ipfs/bafy...` and `https://example.com/q.json` from `<root>/https/example.com/q.json`. Used to index a
+// local chain without network access.
+export const fileGateway = (root: string): MetadataGateway => {
+  const resolvedRoot = path.resolve(root);
+
+  return {
+    name: "file",
+    supports: (uri) => ["ipfs:", "https:", "http:"].includes(schemeOf(uri)),
+    fetch: async (uri) => {
+      const scheme = schemeOf(uri).slice(0, -1);
+      const rest = uri.slice(scheme.length + 1).replace(/^\/\//, "").split(/[?#]/)[0]!;
+      const filePath = path.resolve(resolvedRoot, scheme, rest);
+      if (!filePath.startsWith(`${resolvedRoot}${path.sep}`)) {
+        throw new Error(`${uri} resolves outside the metadata directory`);
+      }
+
+      const body = await readFile(filePath, "utf8");
+      return { body, contentType: filePath.endsWith(".json") ? "application/json" : null, source: filePath };
+    },
+  };
+};
+
+const parsePositiveInt = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${name}: ${raw}`);
+  }
+  return value;
+};
+
+export const createGatewaysFromEnv = (): MetadataGateway[] => {
+  const maxBytes = parsePositiveInt("METADATA_MAX_BYTES", DEFAULT_MAX_BYTES);
+  const data = dataUriGateway({ maxBytes });
+
+  const directory = process.env.METADATA_GATEWAY_DIR;
+  if (directory) {
+    return [data, fileGateway(directory)];
+  }
+
+  const timeoutMs = parsePositiveInt("METADATA_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const ipfsGateways = process.env.METADATA_IPFS_GATEWAYS
+    ? process.env.METADATA_IPFS_GATEWAYS.split(",")
+        .map((gateway) => gateway.trim())
+        .filter(Boolean)
+    : DEFAULT_IPFS_GATEWAYS;
+
+  return [data, ipfsGateway(ipfsGateways, { timeoutMs, maxBytes }), httpGateway({ timeoutMs, maxBytes })];
+};
@@ -0,0 +1,74 @@
+import { createGatewaysFromEnv } from "./gateways";
+import type { MetadataGateway } from "./gateways";
+import { questionDocumentSchema, validateAgainstSchema } from "./schema";
+import type { QuestionDocument } from "./schema";
+
+export type { MetadataGateway } from "./gateways";
+export type { QuestionDocument } from "./schema";
+
+export type MetadataKind = "question" | "oracle" | "resolution" | "evidence";
+
+// `unavailable` documents could not be fetched and are retried later; `invalid` documents were fetched but failed to
+// parse or validate and are kept as-is.
+export type MetadataStatus = "valid" | "invalid" | "unavailable";
+
+export type ResolvedMetadata = {
+  status: MetadataStatus;
+  contentType: string | null;
+  source: string | null;
+  document: unknown;
+  question: QuestionDocument | null;
+  errors: string[];
+};
+
+const unavailable = (error: string): ResolvedMetadata => ({
+  status: "unavailable",
+  contentType: null,
+  source: null,
+  document: null,
+  question: null,
+  errors: [error],
+});
+
+export const createMetadataResolver = (gateways: MetadataGateway[] = createGatewaysFromEnv()) => {
+  return async (uri: string, kind: MetadataKind): Promise<ResolvedMetadata> => {
+    const gateway = gateways.find((candidate) => candidate.supports(uri));
+    if (!gateway) {
+      return unavailable(`No gateway handles ${uri.slice(0, 32)}`);
+    }
+
+    let fetched;
+    try {
+      fetched = await gateway.fetch(uri);
+    } catch (error) {
+      return unavailable(error instanceof Error ? error.message : String(error));
+    }
+
+    let document: unknown;
+    try {
+      document = JSON.parse(fetched.body);
+    } catch {
+      // Oracle and evidence URIs may point at arbitrary content; only question documents must be JSON.
+      const parseError = kind === "question" ? ["Document is not valid JSON"] : [];
+      return {
+        status: parseError.length > 0 ? "invalid" : "valid",
+        contentType: fetched.contentType,
+        source: fetched.source,
+        document: null,
+        question: null,
+        errors: parseError,
+      };
+    }
+
+    const errors = kind === "question" ? validateAgainstSchema(questionDocumentSchema, document) : [];
+
+    return {
+      status: errors.length > 0 ? "invalid" : "valid",
+      contentType: fetched.contentType,
+      source: fetched.source,
+      document,
+      question: kind === "question" && errors.length === 0 ? (document as QuestionDocument) : null,
+      errors,
+    };
+  };
+};
@@ -0,0 +1,89 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+export interface DocumentPublisher {
+  readonly name: string;
+  /** Stores the document and returns the URI to put on-chain. */
+  publish(document: string): Promise<string>;
+}
+
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+const base32 = (bytes: Uint8Array) => {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32[(buffer << (5 - bits)) & 31];
+  return output;
+};
+
+// CIDv1 of the document as a single raw block (sha2-256), the same CID `ipfs add --cid-version=1 --raw-leaves` gives
+// documents below the 256 KiB chunk size, so documents published to a directory can later be added to IPFS unchanged.
+export const rawCid = (document: string) => {
+  const digest = createHash("sha256").update(document).digest();
+  return `b${base32(Uint8Array.from([0x01, 0x55, 0x12, 0x20, ...digest]))}`;
+};
+
+/**
+ * Writes documents to `<root>/ipfs/<cid>`, the layout the indexer's METADATA_GATEWAY_DIR reads, so a local chain's
+ * documents are indexed without an IPFS node.
+ */
+export const directoryPublisher = (root: string): DocumentPublisher => ({
+  name: "directory",
+  publish: async (document) => {
+    const cid = rawCid(document);
+    const directory = path.join(root, "ipfs");
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(path.join(directory, cid), document);
+    return `ipfs://${cid}`;
+  },
+});
+
+/** Adds and pins documents through an IPFS node's HTTP RPC API (Kubo's `/api/v0/add`). */
+export const ipfsApiPublisher = (apiUrl: string, timeoutMs: number): DocumentPublisher => ({
+  name: "ipfs",
+  publish: async (document) => {
+    const url = new URL("/api/v0/add", apiUrl);
+    url.searchParams.set("cid-version", "1");
+    url.searchParams.set("raw-leaves", "true");
+    url.searchParams.set("pin", "true");
+
+    const form = new FormData();
+    form.append("file", new Blob([document], { type: "application/json" }), "document.json");
+
+    const response = await fetch(url, { method: "POST", body: form, signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`${url.origin} responded to add with ${response.status}: ${await response.text()}`);
+    }
+    const { Hash } = (await response.json()) as { Hash?: string };
+    if (!Hash) {
+      throw new Error(`${url.origin} did not return a CID`);
+    }
+    return `ipfs://${Hash}`;
+  },
+});
+
+// METADATA_PUBLISH_API_URL publishes through an IPFS node; otherwise documents are written to METADATA_PUBLISH_DIR,
+// or to METADATA_GATEWAY_DIR so a local setup indexes what it publishes. Null when none is set.
+export const createPublisherFromEnv = (): DocumentPublisher | null => {
+  const apiUrl = process.env.METADATA_PUBLISH_API_URL;
+  if (apiUrl) {
+    const timeoutMs = Number(process.env.METADATA_TIMEOUT_MS ?? 5_000);
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(`Invalid METADATA_TIMEOUT_MS: ${process.env.METADATA_TIMEOUT_MS}`);
+    }
+    return ipfsApiPublisher(apiUrl, timeoutMs);
+  }
+
+  const directory = process.env.METADATA_PUBLISH_DIR || process.env.METADATA_GATEWAY_DIR;
+  return directory ? directoryPublisher(directory) : null;
+};
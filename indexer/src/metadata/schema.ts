@@ -0,0 +1,80 @@
+// A small subset of JSON Schema (type, required, properties, items, minLength, maxLength, maxItems) is enough to
+// describe market documents, so the validator below interprets only those keywords.
+export type JsonSchema = {
+  type: "object" | "array" | "string" | "number" | "boolean";
+  required?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  maxItems?: number;
+};
+
+export const questionDocumentSchema = {
+  type: "object",
+  required: ["title", "description", "resolutionCriteria"],
+  properties: {
+    title: { type: "string", minLength: 1, maxLength: 280 },
+    description: { type: "string", maxLength: 10_000 },
+    category: { type: "string", minLength: 1, maxLength: 64 },
+    tags: { type: "array", maxItems: 16, items: { type: "string", minLength: 1, maxLength: 32 } },
+    resolutionCriteria: { type: "string", minLength: 1, maxLength: 10_000 },
+  },
+} as const satisfies JsonSchema;
+
+export type QuestionDocument = {
+  title: string;
+  description: string;
+  category?: string;
+  tags?: string[];
+  resolutionCriteria: string;
+};
+
+const typeOf = (value: unknown): string => {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  return typeof value;
+};
+
+export const validateAgainstSchema = (schema: JsonSchema, value: unknown, at = "$"): string[] => {
+  const actual = typeOf(value);
+  if (actual !== schema.type) {
+    return [`${at} must be ${schema.type}, got ${actual}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at} must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateAgainstSchema(schema.items!, item, `${at}[${i}]`)));
+    }
+  }
+
+  if (actual === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${at}.${key} is required`);
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) {
+        errors.push(...validateAgainstSchema(property, record[key], `${at}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+};
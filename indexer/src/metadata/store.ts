@@ -0,0 +1,148 @@
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { bigint, integer, jsonb, pgSchema, pgTable, text } from "drizzle-orm/pg-core";
+
+import type { MetadataKind, ResolvedMetadata } from ".";
+
+// Resolved documents are kept outside Ponder's tables, which only indexing may write: handlers record the URIs events
+// reference (metadata_uris) and the metadata worker (bots/metadata) writes what they resolve to here. Rows survive
+// reindexes and API restarts, and are refetched on the worker's schedule rather than on every read.
+export const offchainSchema = pgSchema("offchain");
+
+const documentColumns = () => ({
+  uri: text("uri").notNull(),
+  kind: text("kind").notNull(),
+  status: text("status").notNull(),
+  contentType: text("content_type"),
+  source: text("source"),
+  title: text("title"),
+  description: text("description"),
+  category: text("category"),
+  tags: text("tags").array(),
+  resolutionCriteria: text("resolution_criteria"),
+  document: jsonb("document"),
+  errors: text("errors").array().notNull(),
+  attempts: integer("attempts").notNull(),
+  /** Unix time of the last fetch, successful or not. */
+  fetchedAt: bigint("fetched_at", { mode: "number" }).notNull(),
+});
+
+export const metadataDocuments = offchainSchema.table("metadata_documents", {
+  ...documentColumns(),
+  uri: text("uri").primaryKey(),
+});
+
+// The same table as a view, for the GraphQL schema: Ponder's GraphQL serves tables outside its own schema only
+// through plural queries, which is what it builds for views.
+export const metadataDocumentsView = offchainSchema.view("metadata_documents", documentColumns()).existing();
+
+export type MetadataDocumentRow = typeof metadataDocuments.$inferSelect;
+
+/** Question titles as searched by `/markets?q=`; metadata_documents_title_search_idx indexes the same expression. */
+export const titleSearchVector = sql`to_tsvector('english', coalesce(${metadataDocuments.title}, ''))`;
+
+// Kept in step with `metadataDocuments`; the worker applies it on start, since no migration tool manages this schema.
+const CREATE_STATEMENTS = [
+  sql`create schema if not exists offchain`,
+  sql`create table if not exists offchain.metadata_documents (
+    uri text primary key,
+    kind text not null,
+    status text not null,
+    content_type text,
+    source text,
+    title text,
+    description text,
+    category text,
+    tags text[],
+    resolution_criteria text,
+    document jsonb,
+    errors text[] not null,
+    attempts integer not null,
+    fetched_at bigint not null
+  )`,
+  sql`create index if not exists metadata_documents_category_idx on offchain.metadata_documents (category)`,
+  sql`create index if not exists metadata_documents_title_search_idx on offchain.metadata_documents
+    using gin (to_tsvector('english', coalesce(title, '')))`,
+];
+
+// Content-addressed URIs name one document forever, so what they resolved to never goes stale.
+const IMMUTABLE_URI = "^(ipfs|data):";
+
+export type DueDocument = { uri: string; kind: MetadataKind; status: string | null };
+
+export const openMetadataStore = (db: NodePgDatabase, { ponderSchema }: { ponderSchema: string }) => {
+  // Drizzle refuses pgSchema("public"), where Ponder writes when no schema is configured.
+  const urisColumns = { uri: text("uri").primaryKey(), kind: text("kind").notNull() };
+  const uris =
+    ponderSchema === "public"
+      ? pgTable("metadata_uris", urisColumns)
+      : pgSchema(ponderSchema).table("metadata_uris", urisColumns);
+
+  return {
+    create: async () => {
+      for (const statement of CREATE_STATEMENTS) {
+        await db.execute(statement);
+      }
+    },
+
+    /**
+     * Recorded URIs that were never fetched, failed more than `retryMs` ago, or, unless content-addressed, were
+     * fetched more than `ttlMs` ago; oldest first.
+     */
+    listDue: async ({ ttlMs, retryMs, limit }: { ttlMs: number; retryMs: number; limit: number }) => {
+      const now = Math.floor(Date.now() / 1000);
+      const rows = await db
+        .select({ uri: uris.uri, kind: uris.kind, status: metadataDocuments.status })
+        .from(uris)
+        .leftJoin(metadataDocuments, eq(metadataDocuments.uri, uris.uri))
+        .where(
+          or(
+            isNull(metadataDocuments.uri),
+            and(
+              eq(metadataDocuments.status, "unavailable"),
+              lt(metadataDocuments.fetchedAt, now - Math.floor(retryMs / 1000)),
+            ),
+            and(sql`${uris.uri} !~* ${IMMUTABLE_URI}`, lt(metadataDocuments.fetchedAt, now - Math.floor(ttlMs / 1000))),
+          ),
+        )
+        .orderBy(sql`${metadataDocuments.fetchedAt} asc nulls first`)
+        .limit(limit);
+      return rows as DueDocument[];
+    },
+
+    /**
+     * Stores a fetch result. A refetch that finds the document unavailable keeps the copy fetched before, so a gateway
+     * outage does not blank a document that was already served.
+     */
+    save: async (uri: string, kind: MetadataKind, resolved: ResolvedMetadata, previousStatus: string | null) => {
+      const fetchedAt = Math.floor(Date.now() / 1000);
+      const attempts = sql`${metadataDocuments.attempts} + 1`;
+
+      if (resolved.status === "unavailable" && previousStatus !== null && previousStatus !== "unavailable") {
+        await db.update(metadataDocuments).set({ fetchedAt, attempts }).where(eq(metadataDocuments.uri, uri));
+        return;
+      }
+
+      const values = {
+        kind,
+        status: resolved.status,
+        contentType: resolved.contentType,
+        source: resolved.source,
+        title: resolved.question?.title ?? null,
+        description: resolved.question?.description ?? null,
+        category: resolved.question?.category ?? null,
+        tags: resolved.question?.tags ?? null,
+        resolutionCriteria: resolved.question?.resolutionCriteria ?? null,
+        document: resolved.document ?? null,
+        errors: resolved.errors,
+        fetchedAt,
+      };
+      await db
+        .insert(metadataDocuments)
+        .values({ uri, ...values, attempts: 1 })
+        .onConflictDoUpdate({ target: metadataDocuments.uri, set: { ...values, attempts } });
+    },
+  };
+};
+
+export type MetadataStore = ReturnType<typeof openMetadataStore>;
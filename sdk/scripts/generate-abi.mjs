@@ -0,0 +1,30 @@
+// Writes src/abi.ts from the PredictionMarket artifact `forge build` leaves in contracts/out, so the SDK, the indexer
+// and the bots all use the ABI the contract compiles to.
+//
+//   (cd ../contracts && forge build) && npm run abi
+//
+// `npm run abi:check` exits non-zero instead of writing when src/abi.ts no longer matches the artifact. ABI_ARTIFACT
+// overrides the artifact path.
+import { readFileSync, writeFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const artifactPath =
+  process.env.ABI_ARTIFACT ??
+  fileURLToPath(new URL("../../contracts/out/PredictionMarket.sol/PredictionMarket.json", import.meta.url));
+const outputPath = fileURLToPath(new URL("../src/abi.ts", import.meta.url));
+
+const { abi } = JSON.parse(readFileSync(artifactPath, "utf8"));
+const source = `// Generated by scripts/generate-abi.mjs from the PredictionMarket Foundry artifact; do not edit.
+
+export const predictionMarketAbi = ${JSON.stringify(abi, null, 2)} as const;
+`;
+
+if (process.argv.includes("--check")) {
+  if (readFileSync(outputPath, "utf8") !== source) {
+    console.error("src/abi.ts is out of date with the contract; run `npm run abi` after `forge build`.");
+    process.exit(1);
+  }
+  console.log("src/abi.ts matches the contract artifact.");
+} else {
+  writeFileSync(outputPath, source);
+}
@@ -0,0 +1,240 @@
+import type {
+  Address,
+  ApiErrorBody,
+  AsOf,
+  Book,
+  BookQuery,
+  CandleQuery,
+  Candles,
+  Claimable,
+  DeploymentSelector,
+  DraftSpec,
+  DraftStatus,
+  DraftValidation,
+  FillPlan,
+  Fills,
+  Hash,
+  MarketDetail,
+  MarketDraft,
+  MarketList,
+  MarketListQuery,
+  Order,
+  PlanFillRequest,
+  Portfolio,
+  Protocol,
+  SettlementList,
+  StreamMessage,
+  Timeline,
+  TopOfBook,
+} from "./types";
+
+// Typed client for every route of the indexer HTTP API (indexer/src/api/index.ts). Responses are returned as the API
+// serves them, with amounts as decimal strings; request parameters also accept numbers and bigints.
+
+/** A non-2xx response; `body` is the parsed JSON error, with the plan-fill `code` or draft `issues` when present. */
+export type ApiError = Error & { status: number; body: ApiErrorBody | null };
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof Error && typeof (error as ApiError).status === "number" && "body" in error;
+
+type QueryValue = string | number | bigint | boolean | readonly string[] | undefined;
+type Query = Record<string, QueryValue>;
+
+export type ApiClient = {
+  listMarkets(query?: MarketListQuery): Promise<MarketList>;
+  /** Null when the market is not indexed. */
+  getMarket(marketId: string | bigint, query?: DeploymentSelector & AsOf): Promise<MarketDetail | null>;
+  getBook(marketId: string | bigint, query?: BookQuery): Promise<Book>;
+  getTopOfBook(marketId: string | bigint, query?: BookQuery): Promise<TopOfBook>;
+  /**
+   * Follows the market's Server-Sent Events stream: a snapshot, then every change in order. Pass the last seen `id`
+   * as `after` to resume without gaps; the generator ends when `signal` aborts or the server closes the stream.
+   */
+  streamMarket(
+    marketId: string | bigint,
+    options?: DeploymentSelector & { after?: string; signal?: AbortSignal },
+  ): AsyncGenerator<StreamMessage>;
+  getTimeline(marketId: string | bigint, query?: DeploymentSelector): Promise<Timeline>;
+  getCandles(marketId: string | bigint, query?: CandleQuery): Promise<Candles>;
+  getFills(marketId: string | bigint, query?: DeploymentSelector & AsOf & { limit?: number }): Promise<Fills>;
+  getFinalizableMarkets(query?: DeploymentSelector & { includeDisputed?: boolean }): Promise<SettlementList>;
+  getDisputableMarkets(query?: DeploymentSelector): Promise<SettlementList>;
+  getProtocol(query?: DeploymentSelector & { limit?: number }): Promise<Protocol>;
+  /** Null when the order is not indexed. */
+  getOrder(orderId: string | bigint, query?: DeploymentSelector): Promise<Order | null>;
+  getClaimable(trader: Address, query?: DeploymentSelector): Promise<Claimable>;
+  getPortfolio(trader: Address, query?: DeploymentSelector & AsOf): Promise<Portfolio>;
+  /** Rejects with an ApiError carrying the plan error `code` when the fill is not possible. */
+  planFill(request: PlanFillRequest): Promise<FillPlan>;
+
+  // Admin routes; the client must be created with `adminToken`, which is sent as a bearer token.
+  validateDraft(spec: DraftSpec): Promise<DraftValidation>;
+  createDraft(spec: DraftSpec & { proposer: string }): Promise<MarketDraft>;
+  listDrafts(query?: DeploymentSelector & { status?: DraftStatus | DraftStatus[] }): Promise<MarketDraft[]>;
+  /** Null when the draft does not exist. */
+  getDraft(draftId: string): Promise<MarketDraft | null>;
+  approveDraft(draftId: string, review: { reviewer: string; note?: string }): Promise<MarketDraft>;
+  rejectDraft(draftId: string, review: { reviewer: string; note?: string }): Promise<MarketDraft>;
+  recordDraftSubmission(draftId: string, transactionHash: Hash): Promise<MarketDraft>;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const apiError = async (method: string, url: URL, response: Response): Promise<ApiError> => {
+  const body = (await response.json().catch(() => null)) as ApiErrorBody | null;
+  return Object.assign(
+    new Error(`${method} ${url.pathname} responded with ${response.status}: ${body?.error ?? response.statusText}`),
+    { status: response.status, body },
+  );
+};
+
+const queryString = (value: Exclude<QueryValue, undefined>) => (Array.isArray(value) ? value.join(",") : String(value));
+
+// JSON.stringify cannot serialize bigints, and the API parses every amount from a decimal string.
+const toJson = (body: unknown) =>
+  JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+
+export const createApiClient = ({
+  apiUrl,
+  deployment,
+  adminToken,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  fetch = globalThis.fetch,
+}: {
+  apiUrl: string;
+  /** Default deployment selector; a selector passed to a call replaces it. */
+  deployment?: DeploymentSelector;
+  /** ADMIN_API_TOKEN of the API, sent as a bearer token on /admin routes. */
+  adminToken?: string;
+  timeoutMs?: number;
+  fetch?: typeof globalThis.fetch;
+}): ApiClient => {
+  const urlFor = (path: string, query: Query = {}) => {
+    const url = new URL(path, apiUrl);
+    const selected = query.deployment ?? query.chainId ?? query.contract;
+    for (const [key, value] of Object.entries(selected === undefined ? { ...deployment, ...query } : query)) {
+      if (value !== undefined) url.searchParams.set(key, queryString(value));
+    }
+    return url;
+  };
+
+  const withSelector = <T extends object>(body: T): T =>
+    "deployment" in body || "chainId" in body || "contract" in body ? body : { ...deployment, ...body };
+
+  const adminHeaders = () => {
+    if (adminToken === undefined) {
+      throw new Error("An admin token is required for /admin routes.");
+    }
+    return { authorization: `Bearer ${adminToken}` };
+  };
+
+  const send = async (method: "GET" | "POST", url: URL, body?: unknown) => {
+    const headers: Record<string, string> = url.pathname.startsWith("/admin/") ? adminHeaders() : {};
+    if (body !== undefined) headers["content-type"] = "application/json";
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : toJson(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return response.ok ? response : apiError(method, url, response);
+  };
+
+  const request = async <T>(method: "GET" | "POST", url: URL, body?: unknown) => {
+    const response = await send(method, url, body);
+    if (response instanceof Error) throw response;
+    return (await response.json()) as T;
+  };
+
+  // Single-resource reads map a 404 to null: not indexed, or not yet created at the requested block.
+  const find = async <T>(url: URL) => {
+    const response = await send("GET", url);
+    if (response instanceof Error) {
+      if (response.status === 404) return null;
+      throw response;
+    }
+    return (await response.json()) as T;
+  };
+
+  const draftPath = (draftId: string, action = "") =>
+    `/admin/markets/draft/${encodeURIComponent(draftId)}${action && `/${action}`}`;
+
+  return {
+    listMarkets: (query) => request("GET", urlFor("/markets", query)),
+
+    getMarket: (marketId, query) => find(urlFor(`/markets/${marketId}`, query)),
+
+    getBook: (marketId, query) => request("GET", urlFor(`/markets/${marketId}/book`, query)),
+
+    getTopOfBook: (marketId, query) => request("GET", urlFor(`/markets/${marketId}/top-of-book`, query)),
+
+    // Minimal Server-Sent Events reader: yields one message per blank-line-terminated block.
+    async *streamMarket(marketId, { after, signal, ...selector } = {}) {
+      const url = urlFor(`/markets/${marketId}/stream`, { ...selector, after });
+      const response = await fetch(url, { signal, headers: { accept: "text/event-stream" } });
+      if (!response.ok || !response.body) {
+        throw await apiError("GET", url, response);
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n?/g, "\n");
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+          const block = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf("\n\n");
+
+          let event = "message";
+          let id: string | null = null;
+          const data: string[] = [];
+          for (const line of block.split("\n")) {
+            if (line.startsWith("event:")) event = line.slice(6).trim();
+            else if (line.startsWith("id:")) id = line.slice(3).trim();
+            else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+          }
+          if (data.length > 0) {
+            yield { event, id, data: JSON.parse(data.join("\n")) } as StreamMessage;
+          }
+        }
+      }
+    },
+
+    getTimeline: (marketId, query) => request("GET", urlFor(`/markets/${marketId}/timeline`, query)),
+
+    getCandles: (marketId, query) => request("GET", urlFor(`/markets/${marketId}/candles`, query)),
+
+    getFills: (marketId, query) => request("GET", urlFor(`/markets/${marketId}/fills`, query)),
+
+    getFinalizableMarkets: (query) => request("GET", urlFor("/markets/finalizable", query)),
+
+    getDisputableMarkets: (query) => request("GET", urlFor("/markets/disputable", query)),
+
+    getProtocol: (query) => request("GET", urlFor("/protocol", query)),
+
+    getOrder: (orderId, query) => find(urlFor(`/orders/${orderId}`, query)),
+
+    getClaimable: (trader, query) => request("GET", urlFor(`/traders/${trader}/claimable`, query)),
+
+    getPortfolio: (trader, query) => request("GET", urlFor(`/traders/${trader}/portfolio`, query)),
+
+    planFill: (body) => request("POST", urlFor("/plan-fill"), withSelector(body)),
+
+    validateDraft: (spec) => request("POST", urlFor("/admin/markets/draft/validate"), withSelector(spec)),
+
+    createDraft: (spec) => request("POST", urlFor("/admin/markets/draft"), withSelector(spec)),
+
+    listDrafts: async (query) =>
+      (await request<{ drafts: MarketDraft[] }>("GET", urlFor("/admin/markets/draft", query))).drafts,
+
+    getDraft: (draftId) => find(urlFor(draftPath(draftId))),
+
+    approveDraft: (draftId, review) => request("POST", urlFor(draftPath(draftId, "approve")), review),
+
+    rejectDraft: (draftId, review) => request("POST", urlFor(draftPath(draftId, "reject")), review),
+
+    recordDraftSubmission: (draftId, transactionHash) =>
+      request("POST", urlFor(draftPath(draftId, "submission")), { transactionHash }),
+  };
+};
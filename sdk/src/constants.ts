@@ -0,0 +1,54 @@
+// Prices are quoted in Yes terms, scaled by 1e6: a Yes maker at `p` pays `p` per share and a No maker at `p` pays
+// `PRICE_SCALE - p`. Fees are in basis points of the payout.
+export const PRICE_SCALE = 1_000_000n;
+export const MAX_FEE_BPS = 10_000n;
+
+// Labels in the order of the IPredictionMarket enums, so a label's index is its on-chain value.
+export const OUTCOME_LABELS = ["Undefined", "Yes", "No"] as const;
+export const MARKET_STATUS_LABELS = [
+  "Draft",
+  "Active",
+  "Paused",
+  "Resolved",
+  "Disputed",
+  "Finalized",
+  "Cancelled",
+] as const;
+export const ORDER_TYPE_LABELS = ["GoodTilCancel", "ImmediateOrCancel", "FillOrKill"] as const;
+
+export type Outcome = (typeof OUTCOME_LABELS)[number];
+export type StrictOutcome = Exclude<Outcome, "Undefined">;
+export type MarketStatus = (typeof MARKET_STATUS_LABELS)[number];
+export type OrderType = (typeof ORDER_TYPE_LABELS)[number];
+
+/** Order states reported by the indexer; `expired` orders are still active on-chain until cancelled. */
+export type OrderState = "open" | "partiallyFilled" | "filled" | "cancelled" | "expired";
+export type DisputeStatus = "open" | "superseded" | "finalized";
+
+const decode = <T extends string>(labels: readonly T[], name: string, value: number | bigint): T => {
+  const label = labels[Number(value)];
+  if (label === undefined) {
+    throw new Error(`Unknown ${name} value ${value}`);
+  }
+  return label;
+};
+
+const encode = <T extends string>(labels: readonly T[], name: string, label: T): number => {
+  const index = labels.indexOf(label);
+  if (index === -1) {
+    throw new Error(`Unknown ${name} ${label}`);
+  }
+  return index;
+};
+
+export const decodeOutcome = (value: number | bigint) => decode(OUTCOME_LABELS, "outcome", value);
+export const decodeMarketStatus = (value: number | bigint) => decode(MARKET_STATUS_LABELS, "market status", value);
+export const decodeOrderType = (value: number | bigint) => decode(ORDER_TYPE_LABELS, "order type", value);
+
+export const encodeOutcome = (outcome: Outcome) => encode(OUTCOME_LABELS, "outcome", outcome);
+export const encodeMarketStatus = (status: MarketStatus) => encode(MARKET_STATUS_LABELS, "market status", status);
+export const encodeOrderType = (orderType: OrderType) => encode(ORDER_TYPE_LABELS, "order type", orderType);
+
+export const isStrictOutcome = (outcome: string): outcome is StrictOutcome => outcome === "Yes" || outcome === "No";
+
+export const oppositeOutcome = (outcome: StrictOutcome): StrictOutcome => (outcome === "Yes" ? "No" : "Yes");
@@ -0,0 +1,195 @@
+import { erc20Abi, parseEventLogs, zeroAddress } from "viem";
+import type {
+  Account,
+  Address,
+  Chain,
+  ContractEventArgsFromTopics,
+  Hash,
+  PublicClient,
+  TransactionReceipt,
+  Transport,
+  WalletClient,
+} from "viem";
+
+import { predictionMarketAbi } from "./abi";
+import { encodeOrderType, encodeOutcome } from "./constants";
+import type { OrderType, StrictOutcome } from "./constants";
+
+type Sent = { hash: Hash; receipt: TransactionReceipt };
+
+export type OrderSubmission = {
+  marketId: string | bigint;
+  position: StrictOutcome;
+  /** Yes-denominated price scaled by PRICE_SCALE, for No orders too. */
+  price: bigint;
+  quantity: bigint;
+  orderType?: OrderType;
+  /** Unix time after which the order stops matching; 0 never expires. */
+  expirationEpoch?: bigint;
+  /** Receives the shares; the sender when omitted. */
+  recipient?: Address;
+};
+
+export type OrderFill = {
+  orderId: string | bigint;
+  /** Worst Yes-denominated maker price accepted; see fillLimitPrice. */
+  limitPrice: bigint;
+  quantity: bigint;
+  recipient?: Address;
+};
+
+export type MarketContract = {
+  readonly address: Address;
+  /** The account that signs every transaction. */
+  readonly account: Address;
+  /** Approves the payment token for the contract when its allowance is below `amount`. */
+  ensureAllowance(amount: bigint): Promise<Sent | null>;
+  submitOrder(order: OrderSubmission): Promise<Sent & { orderId: bigint }>;
+  fillOrder(fill: OrderFill): Promise<Sent & { quantity: bigint; price: bigint; fee: bigint }>;
+  cancelOrder(orderId: string | bigint): Promise<Sent & { remainingQuantity: bigint }>;
+  claimPayout(
+    marketId: string | bigint,
+    position: StrictOutcome,
+    recipient?: Address,
+  ): Promise<Sent & { amount: bigint }>;
+};
+
+/**
+ * Wraps the PredictionMarket write calls. Each call waits for its receipt, throws if the transaction reverted, and
+ * returns the values of the event it emitted.
+ */
+export const createMarketContract = ({
+  address,
+  publicClient,
+  walletClient,
+}: {
+  address: Address;
+  publicClient: PublicClient;
+  walletClient: WalletClient<Transport, Chain | undefined, Account>;
+}): MarketContract => {
+  const account = walletClient.account.address;
+  let paymentToken: Address | null = null;
+
+  const confirm = async (hash: Hash): Promise<Sent> => {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return { hash, receipt };
+  };
+
+  const eventOf = <const Name extends "OrderPlaced" | "OrderFilled" | "OrderCancelled" | "PayoutClaimed">(
+    receipt: TransactionReceipt,
+    eventName: Name,
+  ) => {
+    const [log] = parseEventLogs({ abi: predictionMarketAbi, eventName, logs: receipt.logs });
+    if (!log) {
+      throw new Error(`No ${eventName} event in ${receipt.transactionHash}`);
+    }
+    // parseEventLogs does not narrow its args to a generic event name.
+    return log.args as unknown as ContractEventArgsFromTopics<typeof predictionMarketAbi, Name>;
+  };
+
+  return {
+    address,
+    account,
+
+    // submitOrder pulls the maker stake and fillOrder the taker cost with transferFrom.
+    ensureAllowance: async (amount) => {
+      paymentToken ??= await publicClient.readContract({
+        address,
+        abi: predictionMarketAbi,
+        functionName: "paymentToken",
+      });
+
+      const allowance = await publicClient.readContract({
+        address: paymentToken,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [account, address],
+      });
+      if (allowance >= amount) return null;
+
+      return confirm(
+        await walletClient.writeContract({
+          address: paymentToken,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [address, amount],
+          chain: null,
+        }),
+      );
+    },
+
+    submitOrder: async ({
+      marketId,
+      position,
+      price,
+      quantity,
+      orderType = "GoodTilCancel",
+      expirationEpoch = 0n,
+      recipient = zeroAddress,
+    }) => {
+      const sent = await confirm(
+        await walletClient.writeContract({
+          address,
+          abi: predictionMarketAbi,
+          functionName: "submitOrder",
+          args: [
+            {
+              marketId: BigInt(marketId),
+              position: encodeOutcome(position),
+              price,
+              quantity,
+              orderType: encodeOrderType(orderType),
+              expirationEpoch,
+              recipient,
+            },
+          ],
+          chain: null,
+        }),
+      );
+      return { ...sent, orderId: eventOf(sent.receipt, "OrderPlaced").orderId };
+    },
+
+    fillOrder: async ({ orderId, limitPrice, quantity, recipient = zeroAddress }) => {
+      const sent = await confirm(
+        await walletClient.writeContract({
+          address,
+          abi: predictionMarketAbi,
+          functionName: "fillOrder",
+          args: [{ orderId: BigInt(orderId), limitPrice, quantity, recipient }],
+          chain: null,
+        }),
+      );
+      const filled = eventOf(sent.receipt, "OrderFilled");
+      return { ...sent, quantity: filled.quantity, price: filled.price, fee: filled.fee };
+    },
+
+    cancelOrder: async (orderId) => {
+      const sent = await confirm(
+        await walletClient.writeContract({
+          address,
+          abi: predictionMarketAbi,
+          functionName: "cancelOrder",
+          args: [BigInt(orderId)],
+          chain: null,
+        }),
+      );
+      return { ...sent, remainingQuantity: eventOf(sent.receipt, "OrderCancelled").remainingQuantity };
+    },
+
+    claimPayout: async (marketId, position, recipient = zeroAddress) => {
+      const sent = await confirm(
+        await walletClient.writeContract({
+          address,
+          abi: predictionMarketAbi,
+          functionName: "claimPayout",
+          args: [BigInt(marketId), encodeOutcome(position), recipient],
+          chain: null,
+        }),
+      );
+      return { ...sent, amount: eventOf(sent.receipt, "PayoutClaimed").amount };
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import type { ApiClient } from "./client";
+import type { MarketContract } from "./contract";
+import type { FillPlan, PlanFillRequest } from "./types";
+
+export type FillExecution = {
+  plan: FillPlan;
+  /** Legs that were mined, in plan order. */
+  fills: Array<Awaited<ReturnType<MarketContract["fillOrder"]>>>;
+  /** Why execution stopped before the last leg; null when every leg filled. */
+  error: Error | null;
+};
+
+/**
+ * Plans a taker fill with the API and sends its legs in order, after approving the quoted cost. The plan is priced
+ * at the indexed book, so a leg can still revert if the order moved since; execution stops at the first failure and
+ * reports the legs already filled rather than throwing, because those cannot be undone. Errors before the first leg,
+ * such as a plan error or a plan for another contract, are thrown.
+ */
+export const planAndExecuteFill = async ({
+  api,
+  contract,
+  request,
+}: {
+  api: Pick<ApiClient, "planFill">;
+  contract: Pick<MarketContract, "address" | "account" | "ensureAllowance" | "fillOrder">;
+  request: Omit<PlanFillRequest, "encode" | "taker">;
+}): Promise<FillExecution> => {
+  const plan = await api.planFill({ ...request, taker: contract.account, encode: true });
+  const transactions = plan.transactions ?? [];
+
+  const foreign = transactions.find((transaction) => transaction.to.toLowerCase() !== contract.address.toLowerCase());
+  if (foreign) {
+    throw new Error(`Plan targets ${foreign.to}, not ${contract.address}; select the matching deployment`);
+  }
+
+  await contract.ensureAllowance(BigInt(plan.allowance?.amount ?? plan.totalCost));
+
+  const fills: FillExecution["fills"] = [];
+  for (const transaction of transactions) {
+    try {
+      fills.push(
+        await contract.fillOrder({
+          orderId: transaction.orderId,
+          limitPrice: BigInt(transaction.limitPrice),
+          quantity: BigInt(transaction.quantity),
+          recipient: request.recipient,
+        }),
+      );
+    } catch (error) {
+      return { plan, fills, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  }
+  return { plan, fills, error: null };
+};
@@ -0,0 +1,10 @@
+export * from "./constants";
+export * from "./math";
+export { predictionMarketAbi } from "./abi";
+export { createApiClient, isApiError } from "./client";
+export type { ApiClient, ApiError } from "./client";
+export { createMarketContract } from "./contract";
+export type { MarketContract, OrderFill, OrderSubmission } from "./contract";
+export { planAndExecuteFill } from "./execute";
+export type { FillExecution } from "./execute";
+export type * from "./types";
@@ -0,0 +1,34 @@
+import { MAX_FEE_BPS, PRICE_SCALE } from "./constants";
+import type { StrictOutcome } from "./constants";
+
+/** Collateral the `outcome` side puts up for `quantity` shares at the Yes-denominated `price`, rounded down. */
+export const stakeFor = (outcome: StrictOutcome, price: bigint, quantity: bigint): bigint => {
+  if (quantity === 0n) return 0n;
+  if (outcome === "Yes") {
+    return (price * quantity) / PRICE_SCALE;
+  }
+  return ((PRICE_SCALE - price) * quantity) / PRICE_SCALE;
+};
+
+// OrderFilled reports a fee on the matched quantity, but nothing is transferred at fill time: claimPayout
+// withholds `payout * feeBps / MAX_FEE_BPS` from the winning side instead.
+export const payoutFee = (payout: bigint, feeBps: bigint): bigint => (payout * feeBps) / MAX_FEE_BPS;
+
+/** What a winning position of `shares` pays out once the fee is withheld. */
+export const netPayout = (shares: bigint, feeBps: bigint): bigint => shares - payoutFee(shares, feeBps);
+
+/** A Yes-denominated price in the terms of `outcome`; the No price of `p` is `PRICE_SCALE - p`. */
+export const priceFor = (outcome: StrictOutcome, yesPrice: bigint): bigint =>
+  outcome === "Yes" ? yesPrice : PRICE_SCALE - yesPrice;
+
+// fillOrder requires `order.price >= limitPrice` for Yes makers and `order.price <= limitPrice` for No makers,
+// so the tolerance widens the bound away from the quoted price in the direction the contract checks.
+export const fillLimitPrice = (makerSide: StrictOutcome, price: bigint, slippageBps: bigint): bigint => {
+  const tolerance = (price * slippageBps) / MAX_FEE_BPS;
+  if (makerSide === "Yes") {
+    const bound = price - tolerance;
+    return bound > 0n ? bound : 1n;
+  }
+  const bound = price + tolerance;
+  return bound < PRICE_SCALE ? bound : PRICE_SCALE - 1n;
+};
@@ -0,0 +1,530 @@
+import type { DisputeStatus, MarketStatus, OrderState, OrderType, Outcome, StrictOutcome } from "./constants";
+
+// Response shapes of the indexer HTTP API (indexer/src/api/index.ts). Amounts, prices, block numbers and timestamps
+// are decimal strings so they survive JSON; parse them with BigInt.
+
+export type Address = `0x${string}`;
+export type Hash = `0x${string}`;
+
+/** Picks one deployment when the API indexes several; may be omitted when it indexes only one. */
+export type DeploymentSelector = { deployment?: string; chainId?: number | string; contract?: Address };
+
+/** Pins a read to a past block; at most one may be set. */
+export type AsOf = { minConfirmations?: number | bigint; atBlock?: number | bigint; atTimestamp?: number | bigint };
+
+export type Finality = {
+  headBlock: string | null;
+  headTimestamp: string | null;
+  finalizedBlock: string | null;
+  /** Block a pinned read was served at; null for live reads. */
+  asOfBlock: string | null;
+};
+
+export type MetadataDocument = {
+  uri: string;
+  kind: "question" | "oracle" | "resolution" | "evidence";
+  /** `pending` until the metadata worker has fetched the document. */
+  status: "pending" | "valid" | "invalid" | "unavailable";
+  title: string | null;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  resolutionCriteria: string | null;
+  contentType: string | null;
+  document: unknown;
+  errors: string[] | null;
+  /** Block of the first event that referenced the URI. */
+  firstSeenBlock: string;
+  /** Unix time the metadata worker last fetched the document; null while pending. */
+  fetchedAt: string | null;
+};
+
+export type Market = {
+  marketId: string;
+  deployment: string | null;
+  chainId: number;
+  contract: Address;
+  status: MarketStatus;
+  outcome: Outcome;
+  creator: Address;
+  openEpoch: string;
+  closeEpoch: string;
+  feeBps: string;
+  questionUri: string;
+  oracleUri: string;
+  resolutionUri: string | null;
+  evidenceUri: string | null;
+  volume: string;
+  openInterest: string;
+  lastTradeTimestamp: string | null;
+  disputeActive: boolean;
+  createdBlock: string;
+  createdTimestamp: string;
+  updatedTimestamp: string;
+};
+
+export type MarketDetail = Market & {
+  metadata: MetadataDocument | null;
+  oracle: MetadataDocument | null;
+  resolution: MetadataDocument | null;
+  evidence: MetadataDocument | null;
+  finality: Finality;
+};
+
+export type MarketSort = "created" | "closeEpoch" | "volume" | "volume24h" | "liquidity" | "lastTrade";
+
+export type MarketListQuery = DeploymentSelector & {
+  status?: MarketStatus | MarketStatus[];
+  creator?: Address;
+  outcome?: Outcome;
+  hasDispute?: boolean;
+  opensAfter?: number | bigint;
+  opensBefore?: number | bigint;
+  closesAfter?: number | bigint;
+  closesBefore?: number | bigint;
+  /** Full-text search over question titles. */
+  q?: string;
+  sort?: MarketSort;
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+};
+
+export type MarketList = {
+  markets: Array<Market & { volume24h: string; liquidity: string; metadata: MetadataDocument | null }>;
+  nextCursor: string | null;
+};
+
+export type BookLevel = {
+  price: string;
+  remaining: string;
+  orders: number;
+  cumulative: string;
+  updatedBlock: string;
+  confirmations: string | null;
+};
+
+export type BookView = "raw" | "yes" | "no";
+
+export type BookQuery = DeploymentSelector & AsOf & { depth?: number; side?: "yes" | "no" | "both"; view?: BookView };
+
+type BookHeader = {
+  marketId: string;
+  deployment: string;
+  status: MarketStatus;
+  outcome: Outcome;
+  feeBps: string;
+  disputeActive: boolean;
+  totalCollateral: string;
+  updatedBlock: string;
+  updatedTimestamp: string;
+  confirmations: string | null;
+  finality: Finality;
+};
+
+// The raw view lists Yes and No maker orders at their Yes-denominated prices; the yes and no views quote bids and
+// asks in that outcome's price.
+export type Book = BookHeader &
+  ({ view: "raw"; yes: BookLevel[]; no: BookLevel[] } | { view: "yes" | "no"; bids: BookLevel[]; asks: BookLevel[] });
+
+export type TopOfBook = {
+  marketId: string;
+  deployment: string;
+  updatedBlock: string;
+  updatedTimestamp: string;
+  finality: Finality;
+} & (
+  | { view: "raw"; yes: BookLevel | null; no: BookLevel | null }
+  | { view: "yes" | "no"; bids: BookLevel | null; asks: BookLevel | null }
+);
+
+export type Protocol = {
+  deployment: string;
+  chainId: number;
+  contract: Address;
+  paymentToken: Address;
+  creationAgent: Address;
+  resolutionAgent: Address;
+  feeRecipient: Address;
+  approvalAuthority: Address;
+  approvalRequired: boolean;
+  disputeWindow: string;
+  disputeBond: string;
+  updatedBlock: string;
+  updatedTimestamp: string;
+  changes: Array<{
+    eventName: string;
+    field: string;
+    subject: string | null;
+    previousValue: string | null;
+    newValue: string | null;
+    blockNumber: string;
+    blockTimestamp: string;
+    transactionHash: Hash;
+  }>;
+};
+
+export type SettlementMarket = {
+  marketId: string;
+  deployment: string | null;
+  chainId: number;
+  status: MarketStatus;
+  outcome: Outcome;
+  disputeActive: boolean;
+  resolvedAt: string | null;
+  resolvedAtOverridden: boolean;
+  disputeDeadline: string | null;
+  secondsRemaining: string;
+};
+
+export type SettlementList = {
+  heads: Array<{ chainId: number; headBlock: string; headTimestamp: string }>;
+  markets: SettlementMarket[];
+};
+
+export type Timeline = {
+  marketId: string;
+  deployment: string;
+  events: Array<{
+    eventName: string;
+    previousStatus: MarketStatus | null;
+    newStatus: MarketStatus;
+    actor: Address;
+    outcome: Outcome | null;
+    resolutionUri: string | null;
+    evidenceUri: string | null;
+    blockNumber: string;
+    blockTimestamp: string;
+    transactionHash: Hash;
+  }>;
+  disputes: Array<{
+    disputant: Address;
+    evidenceUri: string;
+    bondAmount: string;
+    status: DisputeStatus;
+    openedAt: string;
+    closedAt: string | null;
+    transactionHash: Hash;
+    closedTransaction: Hash | null;
+  }>;
+};
+
+export type CandleInterval = "1m" | "5m" | "1h" | "1d";
+
+export type CandleQuery = DeploymentSelector & {
+  interval?: CandleInterval;
+  from?: number | bigint;
+  to?: number | bigint;
+};
+
+export type Candles = {
+  marketId: string;
+  deployment: string;
+  interval: CandleInterval;
+  from: string;
+  to: string;
+  candles: Array<{
+    bucketStart: string;
+    open: string;
+    high: string;
+    low: string;
+    close: string;
+    volumeShares: string;
+    volumeCollateral: string;
+    trades: number;
+  }>;
+};
+
+export type Fills = {
+  marketId: string;
+  deployment: string;
+  finality: Finality;
+  fills: Array<{
+    fillId: string;
+    orderId: string;
+    makerPosition: StrictOutcome;
+    takerOutcome: StrictOutcome;
+    filler: Address;
+    recipient: Address;
+    price: string;
+    quantity: string;
+    cost: string;
+    reportedFee: string;
+    blockNumber: string;
+    blockTimestamp: string;
+    transactionHash: Hash;
+    confirmations: string | null;
+    finalized: boolean | null;
+  }>;
+};
+
+export type Order = {
+  orderId: string;
+  marketId: string;
+  deployment: string;
+  owner: Address;
+  beneficiary: Address;
+  position: StrictOutcome;
+  orderType: OrderType;
+  price: string;
+  quantity: string;
+  filled: string;
+  remaining: string;
+  expirationEpoch: string;
+  active: boolean;
+  state: OrderState;
+  updatedBlock: string;
+  updatedTimestamp: string;
+  confirmations: string | null;
+};
+
+export type Claimable = {
+  trader: Address;
+  claimable: Array<{
+    marketId: string;
+    deployment: string | null;
+    chainId: number;
+    outcome: StrictOutcome;
+    shares: string;
+    grossAmount: string;
+    fee: string;
+    netAmount: string;
+    finalizedAt: string | null;
+  }>;
+  totalNetAmount: string;
+};
+
+export type Portfolio = {
+  trader: Address;
+  deployment: string;
+  finality: Finality;
+  positions: Array<{
+    marketId: string;
+    marketStatus: MarketStatus;
+    outcome: StrictOutcome;
+    shares: string;
+    averageEntryPrice: string | null;
+    costBasis: string;
+    markPrice: string | null;
+    marketValue: string | null;
+    unrealizedPnl: string | null;
+    realizedPnl: string;
+    confirmations: string | null;
+  }>;
+  totals: { costBasis: string; marketValue: string; unrealizedPnl: string; realizedPnl: string };
+};
+
+export type PlanFillRequest = DeploymentSelector & {
+  marketId: string | bigint;
+  outcome: StrictOutcome;
+  quantity: string | bigint;
+  /** Worst price the taker accepts, in the terms of `outcome`. */
+  limitPrice?: string | bigint;
+  taker?: Address;
+  recipient?: Address;
+  /** Adds ready-to-send fillOrder calldata to the plan. */
+  encode?: boolean;
+  slippageBps?: string | number | bigint;
+};
+
+/** Named after the IPredictionMarket custom errors fillOrder would revert with. */
+export type PlanErrorCode =
+  | "InvalidRequest"
+  | "InvalidOutcome"
+  | "InvalidQuantity"
+  | "InvalidPrice"
+  | "UnknownMarket"
+  | "MarketNotActive"
+  | "MarketClosed"
+  | "TraderNotApproved"
+  | "InsufficientLiquidity";
+
+export type FillPlan = {
+  marketId: string;
+  deployment: string;
+  chainId: number;
+  desiredOutcome: StrictOutcome;
+  totalQuantity: string;
+  totalCost: string;
+  totalReportedFee: string;
+  netPayoutPerShare: string;
+  expectedNetPayout: string;
+  fills: Array<{
+    orderId: string;
+    makerPosition: StrictOutcome;
+    price: string;
+    quantity: string;
+    takerCost: string;
+    reportedFee: string;
+    expectedNetPayout: string;
+    confirmations: string | null;
+  }>;
+  skipped: Array<{ orderId: string; owner: Address; reason: PlanErrorCode }>;
+  finality: Finality;
+  /** Present when the plan was requested with `encode`. */
+  transactions?: Array<{
+    orderId: string;
+    to: Address;
+    chainId: number;
+    limitPrice: string;
+    quantity: string;
+    data: `0x${string}`;
+  }>;
+  allowance?: { spender: Address; amount: string };
+};
+
+export type StreamBookDelta = { side: "yes" | "no"; price: string; remaining: string };
+
+type StreamEnvelope = {
+  marketId: string;
+  sequence: string;
+  blockNumber: string;
+  blockTimestamp: string;
+  transactionHash: Hash | null;
+};
+
+export type StreamMessage =
+  | {
+      event: "snapshot";
+      id: string;
+      data: {
+        marketId: string;
+        deployment: string;
+        sequence: string;
+        status: MarketStatus;
+        outcome: Outcome;
+        disputeActive: boolean;
+        book: { yes: BookLevel[]; no: BookLevel[] };
+        headBlock: string | null;
+        headTimestamp: string | null;
+      };
+    }
+  | {
+      event: "status" | "resolution";
+      id: string;
+      data: StreamEnvelope & {
+        kind: "status" | "resolution";
+        eventName: string;
+        previousStatus: MarketStatus | null;
+        status: MarketStatus;
+        outcome: Outcome | null;
+        resolutionUri: string | null;
+        evidenceUri: string | null;
+      };
+    }
+  | {
+      event: "orderPlaced";
+      id: string;
+      data: StreamEnvelope & {
+        kind: "orderPlaced";
+        orderId: string;
+        owner: Address;
+        position: StrictOutcome;
+        price: string;
+        quantity: string;
+        orderType: OrderType;
+        expirationEpoch: string;
+        bookDelta: StreamBookDelta;
+      };
+    }
+  | {
+      event: "orderFilled";
+      id: string;
+      data: StreamEnvelope & {
+        kind: "orderFilled";
+        orderId: string;
+        fillId: string;
+        makerPosition: StrictOutcome;
+        takerOutcome: StrictOutcome;
+        filler: Address;
+        recipient: Address;
+        price: string;
+        quantity: string;
+        remaining: string;
+        bookDelta: StreamBookDelta;
+      };
+    }
+  | {
+      event: "orderCancelled";
+      id: string;
+      data: StreamEnvelope & {
+        kind: "orderCancelled";
+        orderId: string;
+        position: StrictOutcome;
+        price: string;
+        remainingQuantity: string;
+        /** Null when the order had already left the book by expiring. */
+        bookDelta: StreamBookDelta | null;
+      };
+    }
+  | {
+      event: "orderExpired";
+      id: string;
+      data: StreamEnvelope & {
+        kind: "orderExpired";
+        orderId: string;
+        position: StrictOutcome;
+        price: string;
+        bookDelta: StreamBookDelta;
+      };
+    }
+  | { event: "heartbeat"; id: null; data: { sequence: string } };
+
+export type DraftStatus = "pending" | "approved" | "rejected" | "submitted" | "created";
+
+/** Codes reuse the names of the custom errors createMarket would revert with. */
+export type DraftIssue = {
+  code:
+    "InvalidRequest" | "InvalidDocument" | "EmptyQuestionURI" | "EmptyOracleURI" | "InvalidEpochRange" | "FeeTooHigh";
+  field: string;
+  message: string;
+};
+
+export type QuestionDocument = {
+  title: string;
+  description: string;
+  category?: string;
+  tags?: string[];
+  resolutionCriteria: string;
+};
+
+export type DraftSpec = DeploymentSelector & {
+  question: QuestionDocument;
+  openEpoch: string | number | bigint;
+  closeEpoch: string | number | bigint;
+  feeBps?: string | number | bigint;
+} & (
+    { oracleUri: string; oracle?: never } | { oracle: { adapter: string } & Record<string, unknown>; oracleUri?: never }
+  );
+
+export type DraftValidation = { valid: boolean; deployment: string | null; issues: DraftIssue[] };
+
+export type MarketDraft = {
+  draftId: string;
+  status: DraftStatus;
+  deployment: string;
+  chainId: number;
+  contract: Address;
+  proposer: string;
+  question: QuestionDocument;
+  questionUri: string;
+  oracleUri: string;
+  openEpoch: string;
+  closeEpoch: string;
+  feeBps: string;
+  createdAt: string;
+  updatedAt: string;
+  review?: { status: "approved" | "rejected"; reviewer: string; note?: string; at: string };
+  submission?: { transactionHash: Hash; at: string };
+  market?: { marketId: string; blockNumber: string; timestamp: string; transactionHash: Hash };
+  /** The createMarket call for the creation agent; set while the draft is approved or submitted. */
+  transaction: { to: Address; chainId: number; data: `0x${string}` } | null;
+};
+
+/** Body of every non-2xx response; plan-fill adds a `code`, draft creation the list of `issues`. */
+export type ApiErrorBody = {
+  error: string;
+  code?: PlanErrorCode;
+  issues?: DraftIssue[];
+  [detail: string]: unknown;
+};
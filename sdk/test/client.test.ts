@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createApiClient, isApiError } from "../src";
+import { mockApi } from "./mock-api";
+
+const API_URL = "http://indexer.test";
+const TRADER = "0x00000000000000000000000000000000000000aa";
+const DRAFT_ID = "0b6c1f7e-4a4e-4a4f-9a53-2f6f2d1c9b10";
+
+describe("createApiClient", () => {
+  it("serializes query values and applies the default deployment", async () => {
+    const api = mockApi({ "GET /markets/7/book": { json: { marketId: "7", view: "raw", yes: [], no: [] } } });
+    const client = createApiClient({ apiUrl: API_URL, deployment: { deployment: "mainnet" }, fetch: api.fetch });
+
+    const book = await client.getBook(7n, { depth: 5, side: "yes", atBlock: 120n });
+
+    assert.equal(book.marketId, "7");
+    assert.deepEqual(api.requests[0]?.query, { deployment: "mainnet", depth: "5", side: "yes", atBlock: "120" });
+  });
+
+  it("replaces the default deployment with a selector passed to the call", async () => {
+    const api = mockApi({ "GET /markets": { json: { markets: [], nextCursor: null } } });
+    const client = createApiClient({ apiUrl: API_URL, deployment: { deployment: "mainnet" }, fetch: api.fetch });
+
+    await client.listMarkets({ chainId: 31337, status: ["Active", "Paused"], hasDispute: false });
+
+    assert.deepEqual(api.requests[0]?.query, { chainId: "31337", status: "Active,Paused", hasDispute: "false" });
+  });
+
+  it("returns null for unknown markets, orders and drafts", async () => {
+    const api = mockApi({});
+    const client = createApiClient({ apiUrl: API_URL, adminToken: "secret", fetch: api.fetch });
+
+    assert.equal(await client.getMarket("404"), null);
+    assert.equal(await client.getOrder(9n), null);
+    assert.equal(await client.getDraft(DRAFT_ID), null);
+  });
+
+  it("rejects other failures with the status and error body", async () => {
+    const api = mockApi({
+      "GET /traders/0x00000000000000000000000000000000000000aa/portfolio": {
+        status: 400,
+        json: { error: "Select one deployment with deployment, chainId or contract (a, b)" },
+      },
+    });
+    const client = createApiClient({ apiUrl: API_URL, fetch: api.fetch });
+
+    await assert.rejects(client.getPortfolio(TRADER), (error) => {
+      assert.ok(isApiError(error));
+      assert.equal(error.status, 400);
+      assert.match(error.message, /^GET \/traders\/0x0+aa\/portfolio responded with 400: Select one deployment/);
+      return true;
+    });
+  });
+
+  it("posts plan-fill requests with bigints as decimal strings and surfaces plan error codes", async () => {
+    const api = mockApi({
+      "POST /plan-fill": {
+        status: 422,
+        json: { error: "Insufficient liquidity", code: "InsufficientLiquidity", availableQuantity: "5", skipped: [] },
+      },
+    });
+    const client = createApiClient({ apiUrl: API_URL, deployment: { chainId: 1 }, fetch: api.fetch });
+
+    await assert.rejects(
+      client.planFill({ marketId: 3n, outcome: "Yes", quantity: 10_000_000n, limitPrice: 600_000n }),
+      (error) => isApiError(error) && error.body?.code === "InsufficientLiquidity",
+    );
+    assert.equal(api.requests[0]?.headers["content-type"], "application/json");
+    assert.deepEqual(api.requests[0]?.body, {
+      chainId: 1,
+      marketId: "3",
+      outcome: "Yes",
+      quantity: "10000000",
+      limitPrice: "600000",
+    });
+  });
+
+  it("sends the admin token on draft routes and requires one", async () => {
+    const draft = { draftId: DRAFT_ID, status: "approved" };
+    const api = mockApi({
+      "GET /admin/markets/draft": { json: { drafts: [draft] } },
+      [`POST /admin/markets/draft/${DRAFT_ID}/approve`]: (request) => ({ json: { ...draft, review: request.body } }),
+    });
+    const admin = createApiClient({ apiUrl: API_URL, adminToken: "secret", fetch: api.fetch });
+
+    assert.deepEqual(await admin.listDrafts({ status: ["approved", "submitted"] }), [draft]);
+    const approved = await admin.approveDraft(DRAFT_ID, { reviewer: "alice" });
+    assert.deepEqual(approved.review, { reviewer: "alice" });
+    assert.deepEqual(api.requests[0]?.query, { status: "approved,submitted" });
+    assert.ok(api.requests.every((request) => request.headers.authorization === "Bearer secret"));
+
+    const anonymous = createApiClient({ apiUrl: API_URL, fetch: api.fetch });
+    await assert.rejects(anonymous.listDrafts(), /admin token is required/);
+    assert.equal(api.requests.length, 2);
+  });
+
+  it("reads stream events across chunk boundaries and resumes after an id", async () => {
+    const api = mockApi({
+      "GET /markets/7/stream": {
+        events: [
+          'event: snapshot\nid: 4\ndata: {"marketId":"7","sequence":"4"}\n\n',
+          "event: orderPlaced\nid: 5\r\n",
+          'data: {"marketId":"7","sequence":"5","kind":"orderPlaced","orderId":"11"}\r\n\r\n',
+          ': keep-alive\n\nevent: heartbeat\ndata: {"sequence":"5"}\n\n',
+        ],
+      },
+    });
+    const client = createApiClient({ apiUrl: API_URL, fetch: api.fetch });
+
+    const messages = [];
+    for await (const message of client.streamMarket("7", { after: "3" })) {
+      messages.push(message);
+    }
+
+    assert.deepEqual(
+      messages.map((message) => [message.event, message.id, message.data.sequence]),
+      [
+        ["snapshot", "4", "4"],
+        ["orderPlaced", "5", "5"],
+        ["heartbeat", null, "5"],
+      ],
+    );
+    assert.deepEqual(api.requests[0]?.query, { after: "3" });
+    assert.equal(api.requests[0]?.headers.accept, "text/event-stream");
+  });
+});
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createApiClient, planAndExecuteFill } from "../src";
+import type { Address, FillPlan, MarketContract } from "../src";
+import { mockApi } from "./mock-api";
+
+const CONTRACT: Address = "0x00000000000000000000000000000000000000c0";
+const TAKER: Address = "0x00000000000000000000000000000000000000aa";
+
+const plan = (to = CONTRACT) =>
+  ({
+    marketId: "3",
+    deployment: "local",
+    chainId: 31337,
+    desiredOutcome: "Yes",
+    totalQuantity: "3000000",
+    totalCost: "1700000",
+    totalReportedFee: "0",
+    netPayoutPerShare: "1000000",
+    expectedNetPayout: "3000000",
+    fills: [],
+    skipped: [],
+    finality: { headBlock: "10", headTimestamp: "100", finalizedBlock: null, asOfBlock: null },
+    transactions: [
+      { orderId: "11", to, chainId: 31337, limitPrice: "500000", quantity: "1000000", data: "0x" },
+      { orderId: "12", to, chainId: 31337, limitPrice: "600000", quantity: "2000000", data: "0x" },
+    ],
+    allowance: { spender: to, amount: "1700000" },
+  }) satisfies FillPlan;
+
+// Records calls in order; fillOrder fails for the order ids listed in `failing`.
+const fakeContract = (failing: string[] = []) => {
+  const calls: string[] = [];
+  const contract: Pick<MarketContract, "address" | "account" | "ensureAllowance" | "fillOrder"> = {
+    address: CONTRACT,
+    account: TAKER,
+    ensureAllowance: async (amount) => {
+      calls.push(`approve ${amount}`);
+      return null;
+    },
+    fillOrder: async ({ orderId, limitPrice, quantity, recipient }) => {
+      calls.push(`fill ${orderId} ${limitPrice} ${quantity} ${recipient}`);
+      if (failing.includes(String(orderId))) throw new Error(`Order ${orderId} reverted`);
+      return { hash: "0x01", receipt: {} as never, quantity, price: limitPrice, fee: 0n };
+    },
+  };
+  return { contract, calls };
+};
+
+describe("planAndExecuteFill", () => {
+  it("plans as the signer, approves the quoted cost and fills every leg in order", async () => {
+    const api = mockApi({ "POST /plan-fill": { json: plan() } });
+    const { contract, calls } = fakeContract();
+
+    const execution = await planAndExecuteFill({
+      api: createApiClient({ apiUrl: "http://indexer.test", fetch: api.fetch }),
+      contract,
+      request: { marketId: "3", outcome: "Yes", quantity: 3_000_000n, slippageBps: 50, recipient: TAKER },
+    });
+
+    assert.deepEqual(api.requests[0]?.body, {
+      marketId: "3",
+      outcome: "Yes",
+      quantity: "3000000",
+      slippageBps: 50,
+      recipient: TAKER,
+      taker: TAKER,
+      encode: true,
+    });
+    assert.deepEqual(calls, ["approve 1700000", `fill 11 500000 1000000 ${TAKER}`, `fill 12 600000 2000000 ${TAKER}`]);
+    assert.equal(execution.fills.length, 2);
+    assert.equal(execution.error, null);
+  });
+
+  it("stops at the first failed leg and reports the legs already filled", async () => {
+    const api = mockApi({ "POST /plan-fill": { json: plan() } });
+    const { contract, calls } = fakeContract(["12"]);
+
+    const execution = await planAndExecuteFill({
+      api: createApiClient({ apiUrl: "http://indexer.test", fetch: api.fetch }),
+      contract,
+      request: { marketId: "3", outcome: "Yes", quantity: 3_000_000n },
+    });
+
+    assert.equal(calls.length, 3);
+    assert.deepEqual(
+      execution.fills.map((fill) => fill.quantity),
+      [1_000_000n],
+    );
+    assert.match(execution.error?.message ?? "", /Order 12 reverted/);
+  });
+
+  it("refuses a plan for another contract before sending anything", async () => {
+    const api = mockApi({ "POST /plan-fill": { json: plan("0x00000000000000000000000000000000000000c1") } });
+    const { contract, calls } = fakeContract();
+
+    await assert.rejects(
+      planAndExecuteFill({
+        api: createApiClient({ apiUrl: "http://indexer.test", fetch: api.fetch }),
+        contract,
+        request: { marketId: "3", outcome: "Yes", quantity: 3_000_000n },
+      }),
+      /select the matching deployment/,
+    );
+    assert.deepEqual(calls, []);
+  });
+
+  it("propagates plan errors", async () => {
+    const api = mockApi({
+      "POST /plan-fill": { status: 409, json: { error: "Market is not active", code: "MarketNotActive" } },
+    });
+    const { contract, calls } = fakeContract();
+
+    await assert.rejects(
+      planAndExecuteFill({
+        api: createApiClient({ apiUrl: "http://indexer.test", fetch: api.fetch }),
+        contract,
+        request: { marketId: "3", outcome: "No", quantity: 1n },
+      }),
+      /POST \/plan-fill responded with 409: Market is not active/,
+    );
+    assert.deepEqual(calls, []);
+  });
+});
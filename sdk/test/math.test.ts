@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  PRICE_SCALE,
+  decodeMarketStatus,
+  decodeOrderType,
+  decodeOutcome,
+  encodeOrderType,
+  encodeOutcome,
+  fillLimitPrice,
+  isStrictOutcome,
+  netPayout,
+  oppositeOutcome,
+  payoutFee,
+  priceFor,
+  stakeFor,
+} from "../src";
+
+describe("stakeFor", () => {
+  it("charges Yes the price and No the complement", () => {
+    assert.equal(stakeFor("Yes", 600_000n, 10n * PRICE_SCALE), 6n * PRICE_SCALE);
+    assert.equal(stakeFor("No", 600_000n, 10n * PRICE_SCALE), 4n * PRICE_SCALE);
+  });
+
+  it("rounds down", () => {
+    assert.equal(stakeFor("Yes", 333_333n, 2n), 0n);
+    assert.equal(stakeFor("No", 333_333n, 2n), 1n);
+    assert.equal(stakeFor("Yes", 500_000n, 0n), 0n);
+  });
+});
+
+describe("fees", () => {
+  it("withholds feeBps of the payout", () => {
+    assert.equal(payoutFee(1_000_000n, 250n), 25_000n);
+    assert.equal(netPayout(1_000_000n, 250n), 975_000n);
+    assert.equal(netPayout(1_000_000n, 0n), 1_000_000n);
+  });
+});
+
+describe("prices", () => {
+  it("converts Yes prices to No terms", () => {
+    assert.equal(priceFor("Yes", 250_000n), 250_000n);
+    assert.equal(priceFor("No", 250_000n), 750_000n);
+  });
+
+  it("widens limit prices in the direction fillOrder checks", () => {
+    assert.equal(fillLimitPrice("Yes", 500_000n, 100n), 495_000n);
+    assert.equal(fillLimitPrice("No", 500_000n, 100n), 505_000n);
+    assert.equal(fillLimitPrice("Yes", 500_000n, 0n), 500_000n);
+  });
+
+  it("keeps limit prices inside the valid range", () => {
+    assert.equal(fillLimitPrice("Yes", 1n, 10_000n), 1n);
+    assert.equal(fillLimitPrice("No", 999_999n, 10_000n), PRICE_SCALE - 1n);
+  });
+});
+
+describe("enums", () => {
+  it("decodes on-chain values in contract order", () => {
+    assert.equal(decodeOutcome(0), "Undefined");
+    assert.equal(decodeOutcome(2n), "No");
+    assert.equal(decodeMarketStatus(5), "Finalized");
+    assert.equal(decodeOrderType(2), "FillOrKill");
+  });
+
+  it("round-trips labels", () => {
+    assert.equal(encodeOutcome("Yes"), 1);
+    assert.equal(encodeOrderType("ImmediateOrCancel"), 1);
+    assert.equal(decodeOutcome(encodeOutcome("No")), "No");
+  });
+
+  it("rejects unknown values", () => {
+    assert.throws(() => decodeOutcome(3), /Unknown outcome value 3/);
+    assert.throws(() => decodeMarketStatus(7n), /Unknown market status value 7/);
+  });
+
+  it("distinguishes strict outcomes", () => {
+    assert.equal(isStrictOutcome("Yes"), true);
+    assert.equal(isStrictOutcome("Undefined"), false);
+    assert.equal(oppositeOutcome("Yes"), "No");
+  });
+});
@@ -0,0 +1,39 @@
+// A fetch stand-in that answers from a route table and records every request, so the clients can be tested without
+// a running indexer.
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+type Reply = { status?: number; json?: unknown; events?: string[] };
+type Handler = (request: RecordedRequest) => Reply;
+
+export const mockApi = (routes: Record<string, Handler | Reply>) => {
+  const requests: RecordedRequest[] = [];
+
+  const fetch = async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    const request: RecordedRequest = {
+      method: init.method ?? "GET",
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(new Headers(init.headers)),
+      body: typeof init.body === "string" ? JSON.parse(init.body) : undefined,
+    };
+    requests.push(request);
+
+    const route = routes[`${request.method} ${request.path}`];
+    const reply =
+      typeof route === "function" ? route(request) : (route ?? { status: 404, json: { error: "Not found" } });
+    if (reply.events) {
+      return new Response(reply.events.join(""), { headers: { "content-type": "text/event-stream" } });
+    }
+    return Response.json(reply.json ?? null, { status: reply.status ?? 200 });
+  };
+
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+};